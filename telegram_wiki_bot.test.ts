@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyTaxonomy,
+  extractNotionDatabaseId,
+  markdownToNotionBlocks,
+  nextCronRun,
+  parseCron,
+  parseCronField,
+  parseSearchQuery,
+  parseSlotDays,
+  sourceTextHash
+} from './telegram_wiki_bot';
+
+type PendingMessage = Parameters<typeof sourceTextHash>[0][number];
+
+function pendingMessage(text: string, transcript: string | null = null): PendingMessage {
+  return {
+    id: 1,
+    source_id: 1,
+    message_id: 1,
+    text,
+    media_urls: [],
+    sender: 'alice',
+    timestamp: new Date(0),
+    is_processed: false,
+    deferred_count: 0,
+    transcript
+  };
+}
+
+describe('extractNotionDatabaseId', () => {
+  const id = '0123456789abcdef0123456789abcdef';
+  
+  it('accepts raw and dashed IDs and links', () => {
+    expect(extractNotionDatabaseId(id.toUpperCase())).toBe(id);
+    expect(extractNotionDatabaseId('01234567-89ab-cdef-0123-456789abcdef')).toBe(id);
+    expect(extractNotionDatabaseId(`https://www.notion.so/team/Wiki-${id}?v=fedcba9876543210fedcba9876543210`)).toBe(id);
+  });
+  
+  it('ignores hex digits that do not end a path segment', () => {
+    expect(extractNotionDatabaseId(`https://www.notion.so/team/Wiki?v=${id}x`)).toBeNull();
+    expect(extractNotionDatabaseId('not an id')).toBeNull();
+  });
+});
+
+describe('markdownToNotionBlocks', () => {
+  it('converts headings, code, dividers and nested lists', () => {
+    const blocks = markdownToNotionBlocks('#### Deep\n\n```ts\nconst a = 1;\n```\n\n---\n\n- one\n  - nested\n- two');
+    
+    expect(blocks.map(block => block.type)).toEqual(['heading_3', 'code', 'divider', 'bulleted_list_item', 'bulleted_list_item']);
+    expect(blocks[1]).toMatchObject({ code: { language: 'typescript' } });
+    expect(blocks[3]).toMatchObject({ bulleted_list_item: { children: [{ type: 'bulleted_list_item' }] } });
+  });
+  
+  it('keeps every row of long tables', () => {
+    const rows = Array.from({ length: 150 }, (_, i) => `| ${i} | row ${i} |`);
+    const [table] = markdownToNotionBlocks(['| n | name |', '|---|---|', ...rows].join('\n'));
+    
+    expect(table).toMatchObject({ type: 'table', table: { table_width: 2 } });
+    expect((table.table as { children: unknown[] }).children).toHaveLength(151);
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('takes tag and category filters out of the text', () => {
+    expect(parseSearchQuery('deploy tag:DevOps category:"Release Notes"  rollback')).toEqual({
+      text: 'deploy rollback',
+      filters: { tags: ['devops'], category: 'Release Notes' }
+    });
+  });
+  
+  it('leaves plain queries alone', () => {
+    expect(parseSearchQuery('  how to deploy ')).toEqual({ text: 'how to deploy', filters: { tags: [] } });
+  });
+});
+
+describe('sourceTextHash', () => {
+  it('ignores case, punctuation and spacing', () => {
+    expect(sourceTextHash([pendingMessage('Hello, World!')])).toBe(sourceTextHash([pendingMessage('hello   world')]));
+  });
+  
+  it('includes transcripts', () => {
+    expect(sourceTextHash([pendingMessage('', 'spoken words')])).toBe(sourceTextHash([pendingMessage('Spoken words.')]));
+    expect(sourceTextHash([pendingMessage('hello', 'there')])).not.toBe(sourceTextHash([pendingMessage('hello')]));
+  });
+});
+
+describe('applyTaxonomy', () => {
+  it('normalizes tags and keeps labels as given without a taxonomy', () => {
+    expect(applyTaxonomy({ category: 'Guides', tags: ['#Dev Ops', 'dev_ops', ''] }, { tags: [], categories: [] }))
+      .toEqual({ category: 'Guides', tags: ['dev-ops'] });
+  });
+  
+  it('keeps only allowed labels, in the taxonomy spelling', () => {
+    const taxonomy = { tags: ['deploy', 'ci'], categories: ['How-To'] };
+    
+    expect(applyTaxonomy({ category: 'how-to', tags: ['Deploy', 'misc'] }, taxonomy))
+      .toEqual({ category: 'How-To', tags: ['deploy'] });
+    expect(applyTaxonomy({ category: 'News', tags: [] }, taxonomy))
+      .toEqual({ category: '', tags: [] });
+  });
+});
+
+describe('nextCronRun', () => {
+  it('finds the next matching minute', () => {
+    expect(nextCronRun('* * * * *', 'UTC', new Date('2026-10-19T10:15:30Z'))).toEqual(new Date('2026-10-19T10:16:00Z'));
+    expect(nextCronRun('weekly', 'UTC', new Date('2026-10-19T09:00:00Z'))).toEqual(new Date('2026-10-26T09:00:00Z'));
+  });
+  
+  it('reads times in the timezone, across DST changes', () => {
+    expect(nextCronRun('daily', 'Europe/Berlin', new Date('2026-10-19T12:00:00Z'))).toEqual(new Date('2026-10-20T07:00:00Z'));
+    expect(nextCronRun('daily', 'Europe/Berlin', new Date('2026-10-24T12:00:00Z'))).toEqual(new Date('2026-10-25T08:00:00Z'));
+    expect(nextCronRun('30 2 * * *', 'Europe/Berlin', new Date('2026-03-28T12:00:00Z'))).toEqual(new Date('2026-03-29T01:30:00Z'));
+  });
+  
+  it('gives up on dates that never come', () => {
+    expect(nextCronRun('0 0 31 2 *', 'UTC', new Date('2026-10-19T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('parseSlotDays', () => {
+  it('reads presets and day lists as ISO weekdays', () => {
+    expect(parseSlotDays('weekends')).toEqual([6, 7]);
+    expect(parseSlotDays('Fri,mon,wednesday,mon')).toEqual([1, 3, 5]);
+  });
+  
+  it('rejects unknown days', () => {
+    expect(() => parseSlotDays('mon,someday')).toThrow('Days must be');
+  });
+});
+
+describe('parseCronField', () => {
+  it('expands wildcards, ranges, steps and lists', () => {
+    expect(parseCronField('*', 0, 6)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(parseCronField('1-3', 0, 59)).toEqual([1, 2, 3]);
+    expect(parseCronField('*/15', 0, 59)).toEqual([0, 15, 30, 45]);
+    expect(parseCronField('10/20', 0, 59)).toEqual([10, 30, 50]);
+    expect(parseCronField('5,1,5', 0, 59)).toEqual([1, 5]);
+  });
+  
+  it('rejects values outside the field and malformed parts', () => {
+    expect(() => parseCronField('60', 0, 59)).toThrow('0-59');
+    expect(() => parseCronField('5-1', 0, 59)).toThrow();
+    expect(() => parseCronField('*/0', 0, 59)).toThrow();
+    expect(() => parseCronField('mon', 0, 7)).toThrow('Invalid cron field');
+  });
+});
+
+describe('parseCron', () => {
+  it('reads the presets', () => {
+    expect(parseCron('weekly')).toEqual({
+      minutes: [0],
+      hours: [9],
+      days: parseCronField('*', 1, 31),
+      months: parseCronField('*', 1, 12),
+      weekdays: [1],
+      eitherDay: false
+    });
+  });
+  
+  it('counts Sunday as 7 and matches either day field when both are set', () => {
+    const cron = parseCron('30 8 1 * 0,7');
+    expect(cron.weekdays).toEqual([7]);
+    expect(cron.eitherDay).toBe(true);
+  });
+  
+  it('needs five fields', () => {
+    expect(() => parseCron('0 9 * *')).toThrow('five cron fields');
+  });
+});
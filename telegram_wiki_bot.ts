@@ -1,11 +1,30 @@
-import { Telegraf, Context, Markup } from 'telegraf';
+import { Telegraf, Context, Markup, Scenes, session, type Middleware } from 'telegraf';
 import { message } from 'telegraf/filters';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { Client } from '@notionhq/client';
+import type { Message, InlineQueryResult } from 'telegraf/types';
+import { GoogleGenerativeAI, type ResponseSchema } from '@google/generative-ai';
+import { Client, APIErrorCode, isNotionClientError } from '@notionhq/client';
+import type { BlockObjectRequest } from '@notionhq/client/build/src/api-endpoints';
 import { Octokit } from '@octokit/rest';
 import pg from 'pg';
 import dotenv from 'dotenv';
 import axios from 'axios';
+import { S3Client, S3ServiceException, PutObjectCommand, GetObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import http from 'http';
+import https from 'https';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import express from 'express';
+import { promisify } from 'util';
+import { z } from 'zod';
+import { JSDOM } from 'jsdom';
+import { Readability } from '@mozilla/readability';
+import pdfParse from 'pdf-parse';
+import mammoth from 'mammoth';
 
 dotenv.config();
 
@@ -18,21 +37,145 @@ const pool = new Pool({
 });
 
 // Initialize clients
-const bot = new Telegraf(process.env.TELEGRAM_BOT_TOKEN!);
+const bot = new Telegraf<BotContext>(process.env.TELEGRAM_BOT_TOKEN!);
 const genAI = new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY!);
 const notion = new Client({ auth: process.env.NOTION_API_KEY });
 const octokit = new Octokit({ auth: process.env.GITHUB_TOKEN });
 
+// Multi-step conversations run as scenes, kept in the session for 30 minutes
+const stage = new Scenes.Stage<BotContext>([], { ttl: 30 * 60 });
+bot.use(session());
+// Roles are loaded before scenes run so every handler, in or out of a scene, can check them
+bot.use(loadAccess);
+bot.use(stage.middleware());
+
+// A failing handler is logged instead of stopping the bot
+bot.catch((error, ctx) => {
+  console.error(`Error handling update ${ctx.update.update_id}:`, error);
+});
+
 // Types
-interface UserSettings {
+interface PostDraft {
+  title: string;
+  content: string;
+  media_urls: string[];
+}
+
+interface BotSceneSession extends Scenes.SceneSessionData {
+  postId?: number;
+  draft?: PostDraft;
+  editMode?: 'title' | 'replace' | 'append';
+  settingKey?: SettingKey;
+  // Review message whose buttons are removed once a rejection goes through
+  reviewMessage?: { chatId: number; messageId: number };
+}
+
+type SettingKey = 'combine_time' | 'notion_db' | 'github_repo' | 'ai_model';
+
+interface BotContext extends Context {
+  session: Scenes.SceneSession<BotSceneSession>;
+  scene: Scenes.SceneContextScene<BotContext, BotSceneSession>;
+  access: Access;
+}
+
+// Access control
+type Role = 'owner' | 'admin' | 'editor' | 'reviewer' | 'viewer';
+type Permission = 'view' | 'review' | 'edit' | 'manage_sources' | 'manage_settings' | 'manage_users';
+
+interface Access {
+  role: Role | null;
+  permissions: Set<Permission>;
+  workspaceId: number | null;
+}
+
+// A team that shares sources, destinations, taxonomy and the review queue
+interface Workspace extends WorkspaceSettings {
+  id: number;
+  name: string;
+  owner_id: number;
+  invite_code: string;
+  // Distinct approvals a post needs before it is published
+  required_approvals: number;
+  // Who can reject outright: any reviewer, or only admins (others' rejections become objections)
+  veto: 'any' | 'admin';
+  // IANA zone that scheduled times and publishing slots are given in
+  timezone: string;
+  // Workspace this one's content is waiting to be imported into
+  import_requested_into: number | null;
+  created_at: Date;
+}
+
+// A roundup of a workspace's posts over a period, generated on a cron schedule
+interface Digest {
+  id: number;
+  workspace_id: number;
+  // Who is asked to review the digest
   user_id: number;
+  name: string;
+  cron: string;
+  // 'published': posts published in the period; 'all': every informational post created in it
+  scope: 'published' | 'all';
+  // Empty means every source of the workspace
+  source_ids: number[];
+  // Telegram chat (and forum topic) the published digest is posted to
+  chat_id?: number | null;
+  topic_id?: number | null;
+  is_active: boolean;
+  last_period_end?: Date | null;
+  next_run_at?: Date | null;
+  created_at: Date;
+}
+
+// A recurring publishing time, e.g. weekdays at 09:00 in the workspace's timezone
+interface PublishSlot {
+  id: number;
+  workspace_id: number;
+  // ISO weekdays, 1 = Monday
+  days: number[];
+  slot_time: string;
+}
+
+interface AuditEntry {
+  id: number;
+  post_id: number;
+  workspace_id?: number;
+  actor_id?: number;
+  action: string;
+  status?: string;
+  // Whatever the event recorded; formatAuditEntry checks each field's type before using it
+  details: Record<string, unknown>;
+  created_at: Date;
+}
+
+// Publishing and AI settings, shared by everyone in a workspace
+interface WorkspaceSettings {
   auto_publish: boolean;
   combine_threshold_minutes: number;
+  notion_database_id?: string;
+  github_repo?: string;
+  ai_provider: AIProviderName;
+  ai_model?: string;
+}
+
+type AIProviderName = 'gemini' | 'openai' | 'fake';
+
+interface LLMGenerateOptions {
+  json?: boolean;
+  // JSON Schema the response must follow (structured output mode)
+  schema?: Record<string, unknown>;
+}
+
+interface LLMProvider {
+  name: AIProviderName;
+  model: string;
+  generateText(prompt: string, options?: LLMGenerateOptions): Promise<string>;
+  describeImage(prompt: string, image: Buffer, mimeType: string): Promise<string>;
 }
 
 interface MonitoredSource {
   id: number;
   user_id: number;
+  workspace_id: number;
   chat_id: number;
   chat_title: string;
   chat_type: string;
@@ -49,17 +192,246 @@ interface PendingMessage {
   sender: string;
   timestamp: Date;
   is_processed: boolean;
+  deferred_count: number;
+  transcript?: string | null;
+}
+
+// A burst of messages from one source with no quiet gap longer than the combine time
+interface MessageWindow {
+  sourceId: number;
+  messages: PendingMessage[];
+  isClosed: boolean;
+}
+
+interface MediaAsset {
+  id: number;
+  sha256: string;
+  file_unique_id?: string;
+  storage_key: string;
+  url: string;
+  kind: MediaKind;
+  mime_type: string;
+  size_bytes: number;
+  alt_text?: string;
+  caption?: string;
+  description?: string;
+  ocr_text?: string;
+  described_at?: Date;
+  transcript?: string;
+  transcribed_at?: Date;
+  transcription_attempts: number;
+  transcription_error?: string;
+  transcription_retry_at?: Date;
+}
+
+type MediaKind = 'photo' | 'document' | 'video' | 'voice' | 'audio' | 'video_note';
+
+// Speech-to-text
+interface TranscriptSegment {
+  start: number; // seconds
+  end: number;
+  text: string;
+}
+
+interface Transcriber {
+  name: string;
+  transcribe(audio: Buffer, mimeType: string): Promise<TranscriptSegment[]>;
+}
+
+interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  exists(key: string): Promise<boolean>;
+  urlFor(key: string): string;
 }
 
 interface BlogPost {
   id: number;
   user_id: number;
+  workspace_id: number;
   title: string;
   content: string;
   media_urls: string[];
   notion_page_id?: string;
   github_commit_sha?: string;
-  status: 'pending' | 'published' | 'failed';
+  github_path?: string;
+  source_id?: number;
+  category?: string;
+  tags?: string[];
+  sources?: PostSource[];
+  source_messages?: number[];
+  content_hash?: string;
+  duplicate_of?: number | null;
+  duplicate_similarity?: number | null;
+  merge_content?: string | null;
+  merge_base_hash?: string | null;
+  approved_by?: number | null;
+  approved_at?: Date | null;
+  rejected_by?: number | null;
+  rejected_at?: Date | null;
+  rejection_reason?: string | null;
+  scheduled_at?: Date | null;
+  digest_id?: number | null;
+  digest_period_end?: Date | null;
+  status: 'pending' | 'scheduled' | 'publishing' | 'published' | 'failed' | 'rejected';
+  created_at: Date;
+  published_at?: Date;
+}
+
+// Search
+interface SearchFilters {
+  tags: string[];
+  category?: string;
+  // Only posts from these sources (used for questions asked in a monitored group)
+  sourceIds?: number[];
+}
+
+interface SearchResult {
+  post: BlogPost;
+  snippet: string;
+  notionUrl?: string;
+  githubUrl?: string;
+}
+
+interface Embedder {
+  model: string;
+  embed(text: string): Promise<number[]>;
+}
+
+// A retrieved post passed to the model as numbered context for /ask
+interface AnswerSource {
+  number: number;
+  post: BlogPost;
+  url?: string;
+}
+
+// An earlier post a new one repeats, with the update that would fold the new post into it
+interface DuplicateMatch {
+  post: BlogPost;
+  similarity: number;
+  mergeContent: string;
+  // md5 of the content mergeContent was written from, to notice later edits of the post
+  mergeBaseHash: string;
+}
+
+// A page or document the post draws on, listed under "Sources" when published
+interface PostSource {
+  title: string;
+  url: string;
+}
+
+// Text pulled out of a linked page or an attached document, cached by URL
+interface SourceDocument {
+  id: number;
+  url: string;
+  kind: 'link' | 'document';
+  title: string | null;
+  summary: string | null;
+  error: string | null;
+  fetched_at: Date;
+}
+
+interface PublishJobPayload {
+  postId: number;
+  userId: number;
+  destination: ResolvedDestination;
+}
+
+// Payloads are stored as JSON, so dates come back as strings
+interface JobPayloads {
+  analyze: { userId: number };
+  publish_notion: PublishJobPayload;
+  publish_github: PublishJobPayload;
+  embed_post: { postId: number };
+  digest: { digestId: number; periodStart: Date | string; periodEnd: Date | string };
+}
+
+type JobType = keyof JobPayloads;
+
+interface Job<T extends JobType = JobType> {
+  id: number;
+  type: T;
+  payload: JobPayloads[T];
+  status: 'queued' | 'running' | 'done' | 'dead' | 'discarded';
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  last_error?: string;
+}
+
+interface PublishDestination {
+  id: number;
+  user_id: number;
+  workspace_id: number;
+  name: string;
+  notion_database_id?: string;
+  github_repo?: string;
+  github_branch?: string;
+  github_folder?: string;
+}
+
+interface RoutingRule {
+  id: number;
+  user_id: number;
+  workspace_id: number;
+  source_id?: number;
+  match_type: 'any' | 'keyword' | 'tag' | 'category';
+  pattern?: string;
+  destination_id: number;
+  priority: number;
+  is_active: boolean;
+}
+
+// A destination a post is about to be published to; key identifies it in post_publications
+interface ResolvedDestination {
+  key: string;
+  name: string;
+  notion_database_id?: string;
+  github_repo?: string;
+  github_branch?: string;
+  github_folder?: string;
+}
+
+interface PostPublication {
+  post_id: number;
+  destination_key: string;
+  notion_page_id?: string;
+  github_path?: string;
+  github_commit_sha?: string;
+}
+
+interface GitHubTarget {
+  repo: string;
+  branch?: string;
+  folder?: string;
+}
+
+// Category and tags written to Jekyll front matter and Notion properties
+interface PostLabels {
+  category?: string | null;
+  tags: string[];
+}
+
+// Label properties set on a Notion page
+interface NotionLabelProperties {
+  Tags?: { multi_select: { name: string }[] };
+  Category?: { select: { name: string } | null };
+}
+
+// The tags and categories a workspace allows the analysis to assign; empty lists mean anything goes
+interface Taxonomy {
+  tags: string[];
+  categories: string[];
+}
+
+interface PostRevision {
+  id: number;
+  post_id: number;
+  revision: number;
+  title: string;
+  content: string;
+  media_urls: string[];
+  created_by?: number;
   created_at: Date;
 }
 
@@ -75,6 +447,7 @@ async function initDatabase() {
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
 
+      -- Settings from before workspaces; only read to carry them over to the workspace
       CREATE TABLE IF NOT EXISTS user_settings (
         user_id BIGINT PRIMARY KEY REFERENCES users(user_id),
         auto_publish BOOLEAN DEFAULT false,
@@ -84,6 +457,9 @@ async function initDatabase() {
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
 
+      ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS ai_provider VARCHAR(50) DEFAULT 'gemini';
+      ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS ai_model VARCHAR(255);
+
       CREATE TABLE IF NOT EXISTS monitored_sources (
         id SERIAL PRIMARY KEY,
         user_id BIGINT REFERENCES users(user_id),
@@ -122,627 +498,6468 @@ async function initDatabase() {
         published_at TIMESTAMP
       );
 
+      CREATE TABLE IF NOT EXISTS media_assets (
+        id SERIAL PRIMARY KEY,
+        sha256 CHAR(64) UNIQUE NOT NULL,
+        file_unique_id VARCHAR(255),
+        storage_key VARCHAR(500) NOT NULL,
+        url TEXT NOT NULL,
+        kind VARCHAR(50) NOT NULL,
+        mime_type VARCHAR(255),
+        size_bytes INT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Telegram gives the same content a different file_unique_id when it is sent again
+      -- as another kind of file; every id seen for an asset is kept so it is not downloaded twice
+      CREATE TABLE IF NOT EXISTS media_asset_ids (
+        file_unique_id VARCHAR(255) PRIMARY KEY,
+        asset_id INT NOT NULL REFERENCES media_assets(id) ON DELETE CASCADE
+      );
+      INSERT INTO media_asset_ids (file_unique_id, asset_id)
+      SELECT file_unique_id, MIN(id) FROM media_assets WHERE file_unique_id IS NOT NULL GROUP BY file_unique_id
+      ON CONFLICT DO NOTHING;
+
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS github_path VARCHAR(500);
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+      CREATE TABLE IF NOT EXISTS blog_post_revisions (
+        id SERIAL PRIMARY KEY,
+        post_id INT REFERENCES blog_posts(id) ON DELETE CASCADE,
+        revision INT NOT NULL,
+        title VARCHAR(500),
+        content TEXT,
+        media_urls TEXT[],
+        created_by BIGINT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(post_id, revision)
+      );
+
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS source_id INT REFERENCES monitored_sources(id);
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS category VARCHAR(255);
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS tags TEXT[];
+
+      CREATE TABLE IF NOT EXISTS publish_destinations (
+        id SERIAL PRIMARY KEY,
+        user_id BIGINT REFERENCES users(user_id),
+        name VARCHAR(255) NOT NULL,
+        notion_database_id VARCHAR(255),
+        github_repo VARCHAR(255),
+        github_branch VARCHAR(255),
+        github_folder VARCHAR(500),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS routing_rules (
+        id SERIAL PRIMARY KEY,
+        user_id BIGINT REFERENCES users(user_id),
+        source_id INT REFERENCES monitored_sources(id),
+        match_type VARCHAR(50) NOT NULL DEFAULT 'any',
+        pattern VARCHAR(255),
+        destination_id INT REFERENCES publish_destinations(id) ON DELETE CASCADE,
+        priority INT DEFAULT 0,
+        is_active BOOLEAN DEFAULT true,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS post_publications (
+        post_id INT REFERENCES blog_posts(id) ON DELETE CASCADE,
+        destination_key VARCHAR(100) NOT NULL,
+        notion_page_id VARCHAR(255),
+        github_path VARCHAR(500),
+        github_commit_sha VARCHAR(255),
+        published_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (post_id, destination_key)
+      );
+
+      -- Posts published before routing existed went to the user's default destination
+      INSERT INTO post_publications (post_id, destination_key, notion_page_id, github_path, github_commit_sha, published_at)
+      SELECT id, 'default', notion_page_id, github_path, github_commit_sha, published_at
+      FROM blog_posts
+      WHERE notion_page_id IS NOT NULL OR github_path IS NOT NULL
+      ON CONFLICT DO NOTHING;
+
+      CREATE TABLE IF NOT EXISTS jobs (
+        id SERIAL PRIMARY KEY,
+        type VARCHAR(50) NOT NULL,
+        payload JSONB NOT NULL DEFAULT '{}',
+        dedupe_key VARCHAR(255),
+        status VARCHAR(20) NOT NULL DEFAULT 'queued',
+        attempts INT NOT NULL DEFAULT 0,
+        max_attempts INT NOT NULL DEFAULT 5,
+        run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        locked_at TIMESTAMP,
+        last_error TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS ai_analyses (
+        id SERIAL PRIMARY KEY,
+        user_id BIGINT REFERENCES users(user_id),
+        provider VARCHAR(50),
+        model VARCHAR(255),
+        message_ids INT[],
+        input_tokens_estimate INT,
+        raw_response TEXT,
+        reasoning TEXT,
+        is_valid BOOLEAN,
+        was_repaired BOOLEAN DEFAULT false,
+        used_fallback BOOLEAN DEFAULT false,
+        validation_error TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS analysis_id INT REFERENCES ai_analyses(id);
+
+      CREATE TABLE IF NOT EXISTS source_documents (
+        id SERIAL PRIMARY KEY,
+        url TEXT UNIQUE NOT NULL,
+        kind VARCHAR(20) NOT NULL,
+        title VARCHAR(500),
+        content TEXT,
+        summary TEXT,
+        error TEXT,
+        fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS sources JSONB DEFAULT '[]';
+
+      ALTER TABLE pending_messages ADD COLUMN IF NOT EXISTS deferred_count INT DEFAULT 0;
+
+      ALTER TABLE media_assets ADD COLUMN IF NOT EXISTS alt_text VARCHAR(500);
+      ALTER TABLE media_assets ADD COLUMN IF NOT EXISTS caption TEXT;
+      ALTER TABLE media_assets ADD COLUMN IF NOT EXISTS description TEXT;
+      ALTER TABLE media_assets ADD COLUMN IF NOT EXISTS ocr_text TEXT;
+      ALTER TABLE media_assets ADD COLUMN IF NOT EXISTS described_at TIMESTAMP;
+      ALTER TABLE media_assets ADD COLUMN IF NOT EXISTS transcript TEXT;
+      ALTER TABLE media_assets ADD COLUMN IF NOT EXISTS transcribed_at TIMESTAMP;
+      ALTER TABLE media_assets ADD COLUMN IF NOT EXISTS transcription_attempts INT DEFAULT 0;
+      ALTER TABLE media_assets ADD COLUMN IF NOT EXISTS transcription_error TEXT;
+      ALTER TABLE media_assets ADD COLUMN IF NOT EXISTS transcription_retry_at TIMESTAMP;
+
+      ALTER TABLE pending_messages ADD COLUMN IF NOT EXISTS transcript TEXT;
+
+      -- Text read out of the post's images, kept alongside the post for search
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS media_text TEXT;
+
       CREATE INDEX IF NOT EXISTS idx_pending_messages_processed ON pending_messages(is_processed, timestamp);
+
+      -- Older databases may already hold duplicate deliveries; keep the first copy
+      DELETE FROM pending_messages p
+      USING pending_messages d
+      WHERE p.source_id = d.source_id AND p.message_id = d.message_id AND p.id > d.id;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_pending_messages_source_message ON pending_messages(source_id, message_id);
       CREATE INDEX IF NOT EXISTS idx_blog_posts_status ON blog_posts(status, user_id);
+      CREATE INDEX IF NOT EXISTS idx_media_assets_file_unique_id ON media_assets(file_unique_id);
+      CREATE INDEX IF NOT EXISTS idx_media_assets_ocr_text ON media_assets USING GIN (to_tsvector('simple', COALESCE(ocr_text, '')));
+      CREATE INDEX IF NOT EXISTS idx_jobs_due ON jobs(status, run_at);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_dedupe ON jobs(dedupe_key) WHERE status IN ('queued', 'running');
+
+      -- Full-text search over published posts; 'simple' keeps it language-neutral
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', COALESCE(title, '')), 'A') ||
+        setweight(to_tsvector('simple', COALESCE(content, '')), 'B') ||
+        setweight(to_tsvector('simple', COALESCE(media_text, '')), 'C')
+      ) STORED;
+      CREATE INDEX IF NOT EXISTS idx_blog_posts_search ON blog_posts USING GIN (search_vector);
+
+      -- Duplicate detection: hash of the normalized source text, and the post a new one repeats
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS duplicate_of INT REFERENCES blog_posts(id) ON DELETE SET NULL;
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS duplicate_similarity REAL;
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS merge_content TEXT;
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS merge_base_hash VARCHAR(32);
+      CREATE INDEX IF NOT EXISTS idx_blog_posts_content_hash ON blog_posts(user_id, content_hash);
+
+      CREATE TABLE IF NOT EXISTS taxonomy_terms (
+        id SERIAL PRIMARY KEY,
+        user_id BIGINT REFERENCES users(user_id),
+        kind VARCHAR(20) NOT NULL,
+        name VARCHAR(100) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(user_id, kind, name)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_blog_posts_tags ON blog_posts USING GIN (tags);
+
+      -- Roles replace is_authorized; users authorized before roles existed become editors
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(20);
+      UPDATE users SET role = 'editor' WHERE is_authorized = true AND role IS NULL;
+
+      -- Per-source roles, e.g. who may review posts from one channel
+      CREATE TABLE IF NOT EXISTS source_permissions (
+        source_id INT REFERENCES monitored_sources(id) ON DELETE CASCADE,
+        user_id BIGINT REFERENCES users(user_id),
+        role VARCHAR(20) NOT NULL,
+        granted_by BIGINT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (source_id, user_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS workspaces (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        owner_id BIGINT REFERENCES users(user_id),
+        invite_code VARCHAR(32) UNIQUE NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS workspace_id INT REFERENCES workspaces(id);
+      ALTER TABLE monitored_sources ADD COLUMN IF NOT EXISTS workspace_id INT REFERENCES workspaces(id);
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS workspace_id INT REFERENCES workspaces(id);
+      ALTER TABLE publish_destinations ADD COLUMN IF NOT EXISTS workspace_id INT REFERENCES workspaces(id);
+      ALTER TABLE routing_rules ADD COLUMN IF NOT EXISTS workspace_id INT REFERENCES workspaces(id);
+      ALTER TABLE taxonomy_terms ADD COLUMN IF NOT EXISTS workspace_id INT REFERENCES workspaces(id);
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS approved_by BIGINT REFERENCES users(user_id);
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP;
+
+      -- Roles are per workspace; users.workspace_id is the workspace a user is working in
+      CREATE TABLE IF NOT EXISTS workspace_members (
+        workspace_id INT REFERENCES workspaces(id) ON DELETE CASCADE,
+        user_id BIGINT REFERENCES users(user_id),
+        role VARCHAR(20) NOT NULL,
+        added_by BIGINT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (workspace_id, user_id)
+      );
+
+      -- Users who had a role before workspaces get a personal one that takes over everything they own,
+      -- with their old role in it. This only runs while no workspace has members yet, so users revoked
+      -- later are not given a workspace back on the next start.
+      INSERT INTO workspaces (name, owner_id, invite_code)
+      SELECT COALESCE(username, user_id::text) || '''s workspace', user_id, substr(md5(random()::text || user_id::text), 1, 10)
+      FROM users WHERE workspace_id IS NULL AND role IS NOT NULL AND NOT EXISTS (SELECT 1 FROM workspace_members);
+      UPDATE users u SET workspace_id = (SELECT MIN(w.id) FROM workspaces w WHERE w.owner_id = u.user_id)
+      WHERE u.workspace_id IS NULL AND u.role IS NOT NULL AND NOT EXISTS (SELECT 1 FROM workspace_members);
+      INSERT INTO workspace_members (workspace_id, user_id, role)
+      SELECT workspace_id, user_id, role FROM users
+      WHERE workspace_id IS NOT NULL AND role IS NOT NULL AND NOT EXISTS (SELECT 1 FROM workspace_members);
+      UPDATE monitored_sources t SET workspace_id = u.workspace_id FROM users u WHERE t.workspace_id IS NULL AND t.user_id = u.user_id;
+      UPDATE blog_posts t SET workspace_id = u.workspace_id FROM users u WHERE t.workspace_id IS NULL AND t.user_id = u.user_id;
+      UPDATE publish_destinations t SET workspace_id = u.workspace_id FROM users u WHERE t.workspace_id IS NULL AND t.user_id = u.user_id;
+      UPDATE routing_rules t SET workspace_id = u.workspace_id FROM users u WHERE t.workspace_id IS NULL AND t.user_id = u.user_id;
+      UPDATE taxonomy_terms t SET workspace_id = u.workspace_id FROM users u WHERE t.workspace_id IS NULL AND t.user_id = u.user_id;
+
+      -- A chat (or topic) is monitored once per workspace, so teammates don't get duplicate posts
+      UPDATE monitored_sources ms SET is_active = false
+      WHERE ms.is_active AND EXISTS (
+        SELECT 1 FROM monitored_sources o
+        WHERE o.workspace_id = ms.workspace_id AND o.chat_id = ms.chat_id
+          AND o.topic_id IS NOT DISTINCT FROM ms.topic_id AND o.is_active AND o.id < ms.id
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_monitored_sources_workspace_chat
+        ON monitored_sources(workspace_id, chat_id, COALESCE(topic_id, 0)) WHERE is_active;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_taxonomy_terms_workspace ON taxonomy_terms(workspace_id, kind, name);
+      CREATE INDEX IF NOT EXISTS idx_blog_posts_workspace ON blog_posts(workspace_id, status);
+
+      -- Publishing and AI settings belong to the workspace. Workspaces from before this take their
+      -- owner's user_settings; ai_provider is only NULL until that copy has been made.
+      ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS auto_publish BOOLEAN NOT NULL DEFAULT false;
+      ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS combine_threshold_minutes INT NOT NULL DEFAULT 5;
+      ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS notion_database_id VARCHAR(255);
+      ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS github_repo VARCHAR(255);
+      ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS ai_provider VARCHAR(50);
+      ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS ai_model VARCHAR(255);
+      UPDATE workspaces w SET
+        auto_publish = COALESCE(us.auto_publish, false),
+        combine_threshold_minutes = COALESCE(us.combine_threshold_minutes, 5),
+        notion_database_id = us.notion_database_id,
+        github_repo = us.github_repo,
+        ai_provider = COALESCE(us.ai_provider, 'gemini'),
+        ai_model = us.ai_model
+      FROM workspaces o LEFT JOIN user_settings us ON us.user_id = o.owner_id
+      WHERE o.id = w.id AND w.ai_provider IS NULL;
+      ALTER TABLE workspaces ALTER COLUMN ai_provider SET DEFAULT 'gemini';
+
+      -- Set when the last member of a workspace joins another and asks to bring its content along;
+      -- the content only moves once an admin of the other workspace approves
+      ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS import_requested_into INT REFERENCES workspaces(id) ON DELETE SET NULL;
+
+      -- Approval policy; the defaults match one reviewer deciding alone
+      ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS required_approvals INT NOT NULL DEFAULT 1;
+      ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS veto VARCHAR(20) NOT NULL DEFAULT 'any';
+
+      CREATE TABLE IF NOT EXISTS post_reviews (
+        post_id INT REFERENCES blog_posts(id) ON DELETE CASCADE,
+        user_id BIGINT REFERENCES users(user_id),
+        decision VARCHAR(20) NOT NULL,
+        reason TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (post_id, user_id)
+      );
+
+      -- Rejected posts are kept, with who rejected them and why
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS rejected_by BIGINT REFERENCES users(user_id);
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS rejected_at TIMESTAMP;
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+
+      -- Every state change and review decision on a post. No foreign key to blog_posts,
+      -- so the trail of a merged (deleted) duplicate survives it.
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id SERIAL PRIMARY KEY,
+        post_id INT NOT NULL,
+        workspace_id INT REFERENCES workspaces(id),
+        actor_id BIGINT,
+        action VARCHAR(50) NOT NULL,
+        status VARCHAR(20),
+        details JSONB NOT NULL DEFAULT '{}',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_log_post ON audit_log(post_id, created_at);
+
+      -- Scheduled publishing: approved posts wait as 'scheduled' until scheduled_at
+      ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS scheduled_at TIMESTAMPTZ;
+      CREATE INDEX IF NOT EXISTS idx_blog_posts_scheduled ON blog_posts(scheduled_at) WHERE status = 'scheduled';
+
+      CREATE TABLE IF NOT EXISTS publish_slots (
+        id SERIAL PRIMARY KEY,
+        workspace_id INT REFERENCES workspaces(id) ON DELETE CASCADE,
+        days INT[] NOT NULL,
+        slot_time TIME NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS digests (
+        id SERIAL PRIMARY KEY,
+        workspace_id INT REFERENCES workspaces(id) ON DELETE CASCADE,
+        user_id BIGINT REFERENCES users(user_id),
+        name VARCHAR(255) NOT NULL,
+        cron VARCHAR(100) NOT NULL,
+        scope VARCHAR(20) NOT NULL DEFAULT 'published',
+        source_ids INT[] NOT NULL DEFAULT '{}',
+        chat_id BIGINT,
+        topic_id INT,
+        is_active BOOLEAN DEFAULT true,
+        last_period_end TIMESTAMPTZ,
+        next_run_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_digests_due ON digests(next_run_at) WHERE is_active;
+
+      -- Digest posts are ordinary posts that remember which digest wrote them
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS digest_id INT REFERENCES digests(id) ON DELETE SET NULL;
+      -- One digest post per period, however often its job runs
+      ALTER TABLE blog_posts ADD COLUMN IF NOT EXISTS digest_period_end TIMESTAMPTZ;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_blog_posts_digest_period ON blog_posts(digest_id, digest_period_end);
+
+      -- The bot's answers; in groups only replies to these are taken as follow-up questions
+      CREATE TABLE IF NOT EXISTS answer_messages (
+        chat_id BIGINT NOT NULL,
+        message_id BIGINT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (chat_id, message_id)
+      );
     `);
+    
+    // Semantic search needs the pgvector extension, so it is only set up when embeddings are enabled
+    if (embedder) {
+      await client.query(`
+        CREATE EXTENSION IF NOT EXISTS vector;
+        
+        CREATE TABLE IF NOT EXISTS post_embeddings (
+          post_id INT PRIMARY KEY REFERENCES blog_posts(id) ON DELETE CASCADE,
+          model VARCHAR(255) NOT NULL,
+          embedding vector NOT NULL,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    }
     console.log('✅ Database initialized successfully');
   } finally {
     client.release();
   }
 }
 
-// User authorization check
-async function isAuthorized(userId: number): Promise<boolean> {
-  const result = await pool.query(
-    'SELECT is_authorized FROM users WHERE user_id = $1',
-    [userId]
-  );
-  return result.rows.length > 0 && result.rows[0].is_authorized;
+// Roles from least to most privileged
+const ROLES: Role[] = ['viewer', 'reviewer', 'editor', 'admin', 'owner'];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: ['view'],
+  reviewer: ['view', 'review'],
+  editor: ['view', 'review', 'edit', 'manage_sources', 'manage_settings'],
+  admin: ['view', 'review', 'edit', 'manage_sources', 'manage_settings', 'manage_users'],
+  owner: ['view', 'review', 'edit', 'manage_sources', 'manage_settings', 'manage_users']
+};
+
+const OWNER_USER_ID = parseInt(process.env.OWNER_USER_ID!);
+
+function isRole(value: string): value is Role {
+  return (ROLES as string[]).includes(value);
 }
 
-// Get user settings
-async function getUserSettings(userId: number): Promise<UserSettings> {
+function roleRank(role: Role | null): number {
+  return role ? ROLES.indexOf(role) : -1;
+}
+
+// The owner is configured by OWNER_USER_ID; everyone else has the role their membership of a workspace gives them
+async function getUserRole(userId: number, workspaceId: number | null): Promise<Role | null> {
+  if (userId === OWNER_USER_ID) return 'owner';
+  if (workspaceId === null) return null;
+  
   const result = await pool.query(
-    'SELECT * FROM user_settings WHERE user_id = $1',
-    [userId]
+    'SELECT role FROM workspace_members WHERE workspace_id = $1 AND user_id = $2',
+    [workspaceId, userId]
   );
-  
-  if (result.rows.length === 0) {
-    return {
-      user_id: userId,
-      auto_publish: false,
-      combine_threshold_minutes: 5
-    };
-  }
-  
-  return result.rows[0];
+  return result.rows[0]?.role ?? null;
+}
+
+// Load the sender's workspace and their role in it for every update
+async function loadAccess(ctx: BotContext, next: () => Promise<void>) {
+  const workspaceId = ctx.from ? await getUserWorkspaceId(ctx.from.id) : null;
+  const role = ctx.from ? await getUserRole(ctx.from.id, workspaceId) : null;
+  ctx.access = { role, permissions: new Set(role ? ROLE_PERMISSIONS[role] : []), workspaceId };
+  return next();
 }
 
-// AI message analysis
-async function analyzeMessages(messages: PendingMessage[]): Promise<{
-  shouldCombine: boolean;
-  isInformational: boolean;
-  suggestedTitle: string;
-  combinedContent: string;
-}> {
-  const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
+// Refuse quietly in groups, visibly in private chats and on buttons
+async function denyAccess(ctx: BotContext) {
+  const reason = ctx.access.role
+    ? `⛔ Your role (${ctx.access.role}) does not allow that.`
+    : `⛔ You are not authorized to use this bot. Ask a workspace admin for an invite link or to /authorize your user ID (${ctx.from?.id}).`;
   
-  const messageTexts = messages.map((m, i) => 
-    `[Message ${i + 1}] ${m.sender} at ${m.timestamp.toISOString()}: ${m.text}`
-  ).join('\n\n');
+  if (ctx.callbackQuery) return ctx.answerCbQuery(reason);
+  if (ctx.inlineQuery) return ctx.answerInlineQuery([], { cache_time: 10, is_personal: true });
+  if (ctx.chat?.type === 'private') return ctx.reply(reason);
+}
+
+function requirePermission(permission: Permission): Middleware<BotContext> {
+  return (ctx, next) => ctx.access.permissions.has(permission) ? next() : denyAccess(ctx);
+}
+
+// A user's role covers the posts of the workspace they are in; a per-source role covers posts from that source
+async function canAccessPost(userId: number, access: Access, post: BlogPost, permission: Permission): Promise<boolean> {
+  const isWorkspacePost = access.workspaceId !== null && post.workspace_id === access.workspaceId;
+  if (access.permissions.has(permission) && isWorkspacePost) return true;
+  if (!post.source_id) return false;
   
-  const prompt = `Analyze these Telegram messages and determine:
-1. Are they informational content suitable for a blog/wiki post? (vs casual conversation)
-2. Should they be combined into one post or kept separate?
-3. Suggest a title for the blog post
-4. Create a combined, well-formatted content if they should be combined
+  const grant = await pool.query(
+    'SELECT role FROM source_permissions WHERE source_id = $1 AND user_id = $2',
+    [post.source_id, userId]
+  );
+  return grant.rows.length > 0 && ROLE_PERMISSIONS[grant.rows[0].role as Role].includes(permission);
+}
 
-Messages:
-${messageTexts}
+// Command arguments that name a row; parseInt alone would accept "12abc" and turn "abc" into NaN
+function isId(value: string | undefined): value is string {
+  return value !== undefined && /^\d+$/.test(value);
+}
 
-Respond in JSON format:
-{
-  "shouldCombine": boolean,
-  "isInformational": boolean,
-  "suggestedTitle": "string",
-  "combinedContent": "string (markdown formatted)",
-  "reasoning": "string"
-}`;
+// Caught values are unknown; anything thrown that is not an Error is shown as is
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
 
-  const result = await model.generateContent(prompt);
-  const response = result.response.text();
-  
-  const jsonMatch = response.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('AI response not in expected JSON format');
-  }
-  
-  return JSON.parse(jsonMatch[0]);
+// HTTP status of a failed API request (Octokit and axios errors carry one)
+function errorStatus(error: unknown): number | undefined {
+  return error instanceof Error && 'status' in error && typeof error.status === 'number' ? error.status : undefined;
 }
 
-// Analyze image with AI
-async function analyzeImage(imageUrl: string): Promise<string> {
-  const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
-  
-  const imageResponse = await axios.get(imageUrl, { responseType: 'arraybuffer' });
-  const imageData = Buffer.from(imageResponse.data).toString('base64');
+// The post a handler acts on: the first match group of an action, or a command's first argument
+function getTargetPostArgument(ctx: BotContext): string | undefined {
+  const match = (ctx as BotContext & { match?: RegExpExecArray }).match;
+  return match?.[1] ?? (ctx.message && 'text' in ctx.message ? ctx.message.text.split(/\s+/)[1] : undefined);
+}
+
+// A command without an argument is left to the handler to answer with its usage; anything
+// else has to name a post the user may act on, so unknown posts are refused too
+function requirePostPermission(permission: Permission): Middleware<BotContext> {
+  return async (ctx, next) => {
+    const argument = getTargetPostArgument(ctx);
+    if (!argument) return next();
+    if (!isId(argument)) return denyAccess(ctx);
+    
+    const post = await pool.query<BlogPost>('SELECT * FROM blog_posts WHERE id = $1', [parseInt(argument)]);
+    if (post.rows.length > 0 && await canAccessPost(ctx.from!.id, ctx.access, post.rows[0], permission)) {
+      return next();
+    }
+    return denyAccess(ctx);
+  };
+}
+
+// Admins manage roles below their own; only the owner hands out (or takes away) admin
+function canAssignRole(actor: Role | null, current: Role | null, next: Role | null): boolean {
+  const limit = actor === 'owner' ? roleRank('admin') : roleRank(actor) - 1;
+  return roleRank(current) <= limit && roleRank(next) <= limit;
+}
+
+// Workspaces
+const IMPORT_REQUESTED_NOTE = '\n\nThe admins have been asked whether to import the content of your old workspace.';
+
+// Hex, so codes survive Markdown and being typed after /join
+function generateInviteCode(): string {
+  return crypto.randomBytes(6).toString('hex');
+}
+
+async function getUserWorkspaceId(userId: number): Promise<number | null> {
+  const result = await pool.query('SELECT workspace_id FROM users WHERE user_id = $1', [userId]);
+  return result.rows[0]?.workspace_id ?? null;
+}
+
+// The owner starts out in a personal workspace until they join a team's
+async function ensureWorkspace(userId: number, username?: string): Promise<number> {
+  const existing = await getUserWorkspaceId(userId);
+  if (existing !== null) return existing;
   
-  const result = await model.generateContent([
-    'Describe this image in detail for a blog post. Focus on important information, data, or content visible in the image.',
-    {
-      inlineData: {
-        data: imageData,
-        mimeType: imageResponse.headers['content-type'] || 'image/jpeg'
-      }
+  const workspace = await pool.query(
+    'INSERT INTO workspaces (name, owner_id, invite_code) VALUES ($1, $2, $3) RETURNING id',
+    [`${username || userId}'s workspace`, userId, generateInviteCode()]
+  );
+  await pool.query('UPDATE users SET workspace_id = $2 WHERE user_id = $1', [userId, workspace.rows[0].id]);
+  await pool.query(
+    `INSERT INTO workspace_members (workspace_id, user_id, role) VALUES ($1, $2, 'admin')`,
+    [workspace.rows[0].id, userId]
+  );
+  
+  return workspace.rows[0].id;
+}
+
+// Move a user into the workspace with an invite code. New members start as viewers; someone
+// who was a member before gets the role they had back. A user who was the last member of their
+// old workspace can bring its content along, but only once an admin of the new one approves.
+async function joinWorkspace(
+  userId: number,
+  inviteCode: string,
+  username?: string
+): Promise<{ workspace: Workspace; importRequested: boolean } | null> {
+  const workspace = await pool.query<Workspace>('SELECT * FROM workspaces WHERE invite_code = $1', [inviteCode]);
+  if (workspace.rows.length === 0) return null;
+  
+  const target = workspace.rows[0];
+  const previousId = await getUserWorkspaceId(userId);
+  if (previousId === target.id) return { workspace: target, importRequested: false };
+  
+  await pool.query(
+    `INSERT INTO users (user_id, username, workspace_id) VALUES ($1, $2, $3)
+     ON CONFLICT (user_id) DO UPDATE SET workspace_id = EXCLUDED.workspace_id`,
+    [userId, username, target.id]
+  );
+  await pool.query(
+    `INSERT INTO workspace_members (workspace_id, user_id, role) VALUES ($1, $2, 'viewer')
+     ON CONFLICT (workspace_id, user_id) DO NOTHING`,
+    [target.id, userId]
+  );
+  
+  if (previousId === null) return { workspace: target, importRequested: false };
+  
+  // Only an admin of the old workspace who leaves nobody behind in it can offer its content
+  const request = await pool.query<Workspace>(
+    `UPDATE workspaces w SET import_requested_into = $2
+     WHERE w.id = $1
+       AND EXISTS (SELECT 1 FROM workspace_members WHERE workspace_id = w.id AND user_id = $3 AND role = 'admin')
+       AND NOT EXISTS (SELECT 1 FROM workspace_members WHERE workspace_id = w.id AND user_id <> $3)
+       AND NOT EXISTS (SELECT 1 FROM users WHERE workspace_id = w.id)
+       AND (EXISTS (SELECT 1 FROM monitored_sources WHERE workspace_id = w.id)
+         OR EXISTS (SELECT 1 FROM blog_posts WHERE workspace_id = w.id)
+         OR EXISTS (SELECT 1 FROM publish_destinations WHERE workspace_id = w.id))
+     RETURNING *`,
+    [previousId, target.id, userId]
+  );
+  if (request.rows.length === 0) return { workspace: target, importRequested: false };
+  
+  await sendImportRequest(request.rows[0], target, userId, username);
+  return { workspace: target, importRequested: true };
+}
+
+// Ask the admins of a workspace whether to take over the content of a member's old workspace
+async function sendImportRequest(previous: Workspace, target: Workspace, userId: number, username?: string) {
+  const admins = await pool.query(
+    `SELECT user_id FROM workspace_members WHERE workspace_id = $1 AND role = 'admin'
+     UNION SELECT owner_id FROM workspaces WHERE id = $1`,
+    [target.id]
+  );
+  
+  for (const admin of admins.rows) {
+    if (Number(admin.user_id) === userId) continue;
+    
+    try {
+      await bot.telegram.sendMessage(
+        admin.user_id,
+        `📦 ${username ? `@${escapeMarkdown(username)}` : userId} joined ${boldMarkdown(target.name)} and asks to bring along ` +
+        `the sources, destinations, routes, tags and posts of ${boldMarkdown(previous.name)}.`,
+        {
+          parse_mode: 'Markdown',
+          ...Markup.inlineKeyboard([[
+            Markup.button.callback('📥 Import', `import_${previous.id}`),
+            Markup.button.callback('🙅 Keep apart', `keepapart_${previous.id}`)
+          ]])
+        }
+      );
+    } catch (error) {
+      console.error(`Error sending import request to ${admin.user_id}:`, error);
     }
-  ]);
+  }
+}
+
+// Move the content of a workspace nobody works in anymore into another one and drop it. Chats both
+// workspaces monitor keep the target's source. Returns false when the import is no longer possible.
+async function importWorkspace(previousId: number, targetId: number): Promise<boolean> {
+  const client = await pool.connect();
   
-  return result.response.text();
+  try {
+    await client.query('BEGIN');
+    
+    const request = await client.query(
+      `SELECT id FROM workspaces w
+       WHERE w.id = $1 AND w.import_requested_into = $2
+         AND NOT EXISTS (SELECT 1 FROM users WHERE workspace_id = w.id)
+       FOR UPDATE`,
+      [previousId, targetId]
+    );
+    if (request.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return false;
+    }
+    
+    await client.query(
+      `UPDATE monitored_sources ms SET is_active = false
+       WHERE ms.workspace_id = $1 AND ms.is_active AND EXISTS (
+         SELECT 1 FROM monitored_sources o
+         WHERE o.workspace_id = $2 AND o.is_active AND o.chat_id = ms.chat_id
+           AND o.topic_id IS NOT DISTINCT FROM ms.topic_id
+       )`,
+      [previousId, targetId]
+    );
+    await client.query(
+      `DELETE FROM taxonomy_terms t
+       WHERE t.workspace_id = $1 AND EXISTS (
+         SELECT 1 FROM taxonomy_terms o WHERE o.workspace_id = $2 AND o.kind = t.kind AND o.name = t.name
+       )`,
+      [previousId, targetId]
+    );
+    
+    for (const table of ['monitored_sources', 'publish_destinations', 'routing_rules', 'taxonomy_terms', 'blog_posts', 'audit_log', 'digests']) {
+      await client.query(`UPDATE ${table} SET workspace_id = $2 WHERE workspace_id = $1`, [previousId, targetId]);
+    }
+    await client.query('DELETE FROM workspaces WHERE id = $1', [previousId]);
+    
+    await client.query('COMMIT');
+    return true;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
 }
 
-// Publish to Notion
-async function publishToNotion(
-  databaseId: string,
-  title: string,
-  content: string,
-  mediaUrls: string[]
-): Promise<string> {
-  const children: any[] = [
-    {
-      object: 'block',
-      type: 'paragraph',
-      paragraph: {
-        rich_text: [{
-          type: 'text',
-          text: { content }
-        }]
+// The reviewer whose decision sent a post out
+async function recordApproval(postId: number, userId: number) {
+  await pool.query(
+    'UPDATE blog_posts SET approved_by = $2, approved_at = NOW() WHERE id = $1',
+    [postId, userId]
+  );
+}
+
+// Get a workspace with its settings
+async function getWorkspace(workspaceId: number): Promise<Workspace> {
+  const result = await pool.query<Workspace>('SELECT * FROM workspaces WHERE id = $1', [workspaceId]);
+  return result.rows[0];
+}
+
+// Local filesystem blob store, served by the health check server under /media
+function createLocalBlobStore(rootDir: string, publicBaseUrl: string): BlobStore {
+  return {
+    async put(key, data) {
+      const filePath = path.join(rootDir, key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+    async get(key) {
+      return fs.readFile(path.join(rootDir, key));
+    },
+    async exists(key) {
+      try {
+        await fs.access(path.join(rootDir, key));
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+        throw error;
       }
+    },
+    urlFor(key) {
+      return `${publicBaseUrl.replace(/\/$/, '')}/media/${key}`;
     }
-  ];
+  };
+}
+
+// S3-compatible blob store (AWS S3, Cloudflare R2, MinIO, ...)
+function createS3BlobStore(bucket: string, publicBaseUrl: string): BlobStore {
+  const s3 = new S3Client({
+    region: process.env.S3_REGION || 'auto',
+    endpoint: process.env.S3_ENDPOINT,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    credentials: process.env.S3_ACCESS_KEY_ID ? {
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY!
+    } : undefined
+  });
   
-  for (const url of mediaUrls) {
-    children.push({
-      object: 'block',
-      type: 'image',
-      image: {
-        type: 'external',
-        external: { url }
+  return {
+    async put(key, data, contentType) {
+      await s3.send(new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: data,
+        ContentType: contentType
+      }));
+    },
+    async get(key) {
+      const response = await s3.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      return Buffer.from(await response.Body!.transformToByteArray());
+    },
+    async exists(key) {
+      try {
+        await s3.send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
+        return true;
+      } catch (error) {
+        // Only a missing object means "upload it"; auth and network errors must not look like one
+        if (error instanceof S3ServiceException && error.$metadata.httpStatusCode === 404) return false;
+        throw error;
       }
-    });
+    },
+    urlFor(key) {
+      return `${publicBaseUrl.replace(/\/$/, '')}/${key}`;
+    }
+  };
+}
+
+const MEDIA_DIR = process.env.MEDIA_DIR || path.join(process.cwd(), 'media');
+
+const blobStore: BlobStore = process.env.MEDIA_STORAGE === 's3'
+  ? createS3BlobStore(process.env.S3_BUCKET!, process.env.S3_PUBLIC_URL!)
+  : createLocalBlobStore(MEDIA_DIR, process.env.PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || 3000}`);
+
+// Telegram refuses getFile for anything larger than this
+const TELEGRAM_MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+  'video/mp4': '.mp4',
+  'audio/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/x-wav': '.wav',
+  'video/quicktime': '.mov',
+  'application/pdf': '.pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx'
+};
+
+interface TelegramMedia {
+  kind: MediaKind;
+  fileId: string;
+  fileUniqueId: string;
+  mimeType: string;
+  fileSize?: number;
+  fileName?: string;
+}
+
+// Collect the downloadable files attached to a message
+function extractMedia(msg: Message): TelegramMedia[] {
+  if ('photo' in msg) {
+    const largest = msg.photo[msg.photo.length - 1];
+    return [{
+      kind: 'photo',
+      fileId: largest.file_id,
+      fileUniqueId: largest.file_unique_id,
+      mimeType: 'image/jpeg',
+      fileSize: largest.file_size
+    }];
   }
   
-  const response = await notion.pages.create({
-    parent: { database_id: databaseId },
-    properties: {
-      Name: {
-        title: [{
-          text: { content: title }
-        }]
-      },
-      Status: {
-        select: { name: 'Published' }
+  const files: [MediaKind, { file_id: string; file_unique_id: string; file_size?: number; mime_type?: string; file_name?: string } | undefined][] = [
+    ['document', 'document' in msg ? msg.document : undefined],
+    ['video', 'video' in msg ? msg.video : undefined],
+    ['voice', 'voice' in msg ? msg.voice : undefined],
+    ['audio', 'audio' in msg ? msg.audio : undefined],
+    ['video_note', 'video_note' in msg ? { ...msg.video_note, mime_type: 'video/mp4' } : undefined]
+  ];
+  
+  return files
+    .filter(([, file]) => file !== undefined)
+    .map(([kind, file]) => ({
+      kind,
+      fileId: file!.file_id,
+      fileUniqueId: file!.file_unique_id,
+      mimeType: file!.mime_type || 'application/octet-stream',
+      fileSize: file!.file_size,
+      fileName: file!.file_name
+    }));
+}
+
+// Download a Telegram file into the blob store, deduplicated by content hash
+async function storeTelegramMedia(media: TelegramMedia): Promise<MediaAsset | null> {
+  const known = await pool.query<MediaAsset>(
+    `SELECT ma.* FROM media_assets ma
+     JOIN media_asset_ids i ON i.asset_id = ma.id
+     WHERE i.file_unique_id = $1`,
+    [media.fileUniqueId]
+  );
+  if (known.rows.length > 0) return known.rows[0];
+  
+  if (media.fileSize && media.fileSize > TELEGRAM_MAX_DOWNLOAD_BYTES) {
+    console.warn(`Skipping ${media.kind} ${media.fileUniqueId}: too large to download`);
+    return null;
+  }
+  
+  const file = await bot.telegram.getFile(media.fileId);
+  const link = await bot.telegram.getFileLink(file);
+  const response = await axios.get(link.href, { responseType: 'arraybuffer' });
+  const data = Buffer.from(response.data);
+  
+  const sha256 = crypto.createHash('sha256').update(data).digest('hex');
+  const extension = MIME_EXTENSIONS[media.mimeType]
+    || path.extname(media.fileName || file.file_path || '')
+    || '';
+  const key = `${sha256.slice(0, 2)}/${sha256}${extension}`;
+  
+  if (!await blobStore.exists(key)) {
+    await blobStore.put(key, data, media.mimeType);
+  }
+  
+  const result = await pool.query<MediaAsset>(
+    `INSERT INTO media_assets (sha256, file_unique_id, storage_key, url, kind, mime_type, size_bytes)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (sha256) DO UPDATE SET sha256 = EXCLUDED.sha256
+     RETURNING *`,
+    [sha256, media.fileUniqueId, key, blobStore.urlFor(key), media.kind, media.mimeType, data.length]
+  );
+  
+  await pool.query(
+    'INSERT INTO media_asset_ids (file_unique_id, asset_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+    [media.fileUniqueId, result.rows[0].id]
+  );
+  
+  return result.rows[0];
+}
+
+// Look up stored assets by the stable URLs saved on messages and posts
+async function getMediaAssets(urls: string[]): Promise<MediaAsset[]> {
+  if (urls.length === 0) return [];
+  
+  const result = await pool.query<MediaAsset>(
+    'SELECT * FROM media_assets WHERE url = ANY($1)',
+    [urls]
+  );
+  
+  return urls
+    .map(url => result.rows.find(asset => asset.url === url))
+    .filter((asset): asset is MediaAsset => asset !== undefined);
+}
+
+// AI providers
+// The fake provider is for tests only; elsewhere it is neither offered nor used
+const FAKE_AI_ENABLED = process.env.NODE_ENV === 'test';
+
+const DEFAULT_AI_MODELS: Record<AIProviderName, string> = {
+  gemini: 'gemini-1.5-flash',
+  openai: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+  fake: 'fake'
+};
+
+function createGeminiProvider(modelName: string): LLMProvider {
+  return {
+    name: 'gemini',
+    model: modelName,
+    async generateText(prompt, options = {}) {
+      const model = genAI.getGenerativeModel({
+        model: modelName,
+        generationConfig: options.json || options.schema
+          ? { responseMimeType: 'application/json', responseSchema: options.schema as ResponseSchema | undefined }
+          : undefined
+      });
+      const result = await model.generateContent(prompt);
+      return result.response.text();
+    },
+    async describeImage(prompt, image, mimeType) {
+      const model = genAI.getGenerativeModel({ model: modelName });
+      const result = await model.generateContent([
+        prompt,
+        { inlineData: { data: image.toString('base64'), mimeType } }
+      ]);
+      return result.response.text();
+    }
+  };
+}
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, Ollama, llama.cpp, vLLM, ...
+function createOpenAICompatibleProvider(modelName: string): LLMProvider {
+  const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+  const headers = process.env.OPENAI_API_KEY
+    ? { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` }
+    : {};
+  
+  const complete = async (content: unknown, options: LLMGenerateOptions = {}) => {
+    const response = await axios.post(
+      `${baseUrl}/chat/completions`,
+      {
+        model: modelName,
+        messages: [{ role: 'user', content }],
+        ...(options.schema
+          ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: options.schema } } }
+          : options.json ? { response_format: { type: 'json_object' } } : {})
       },
-      Created: {
-        date: { start: new Date().toISOString() }
-      }
+      { headers, timeout: 5 * 60 * 1000 }
+    );
+    return response.data.choices[0].message.content as string;
+  };
+  
+  return {
+    name: 'openai',
+    model: modelName,
+    generateText: (prompt, options) => complete(prompt, options),
+    describeImage: (prompt, image, mimeType) => complete([
+      { type: 'text', text: prompt },
+      { type: 'image_url', image_url: { url: `data:${mimeType};base64,${image.toString('base64')}` } }
+    ])
+  };
+}
+
+// Deterministic provider for tests and dry runs: never leaves the process
+function createFakeProvider(): LLMProvider {
+  const digest = (input: string | Buffer) =>
+    crypto.createHash('sha256').update(input).digest('hex').slice(0, 8);
+  
+  return {
+    name: 'fake',
+    model: 'fake',
+    async generateText(prompt, options = {}) {
+      if (!options.json && !options.schema) return `[fake ${digest(prompt)}] ${prompt.slice(0, 200)}`;
+      
+      // Every message becomes part of a single topic
+      const body = prompt.split('Messages:\n')[1]?.split('\n\nRespond in JSON')[0] || prompt;
+      const messageNumbers = [...body.matchAll(/\[Message (\d+)\]/g)].map(match => parseInt(match[1]));
+      return JSON.stringify({
+        clusters: [{
+          title: `Fake post ${digest(prompt)}`,
+          content: body.trim(),
+          messageNumbers: messageNumbers.length > 0 ? messageNumbers : [1],
+          category: 'general',
+          tags: ['fake']
+        }],
+        discardedMessageNumbers: [],
+        reasoning: 'Generated by the fake provider'
+      });
     },
-    children
-  });
+    async describeImage(prompt, image) {
+      const label = `fake image ${digest(image)}`;
+      return JSON.stringify({ altText: label, caption: label, description: `[${label}]`, ocrText: '' });
+    }
+  };
+}
+
+// Provider and model picked in the workspace's settings
+function getLLMProvider(settings: WorkspaceSettings): LLMProvider {
+  const provider = settings.ai_provider || 'gemini';
+  const model = settings.ai_model || DEFAULT_AI_MODELS[provider];
   
-  return response.id;
+  switch (provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(model);
+    case 'fake':
+      if (FAKE_AI_ENABLED) return createFakeProvider();
+      return createGeminiProvider(DEFAULT_AI_MODELS.gemini);
+    default:
+      return createGeminiProvider(model);
+  }
 }
 
-// Publish to GitHub Pages
-async function publishToGitHub(
-  repo: string,
-  title: string,
-  content: string,
-  mediaUrls: string[]
-): Promise<string> {
-  const [owner, repoName] = repo.split('/');
-  const date = new Date();
-  const filename = `${date.toISOString().split('T')[0]}-${title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.md`;
+// One topic found in a batch of messages; messageNumbers refer to the [Message N] labels
+const TopicClusterSchema = z.object({
+  title: z.string().trim().min(1).max(500),
+  content: z.string().trim().min(1),
+  messageNumbers: z.array(z.number().int().positive()).min(1),
+  category: z.string().trim().default('general'),
+  tags: z.array(z.string().trim().toLowerCase()).max(10).default([])
+});
+
+// Shape every analysis response must have; optional fields fall back to defaults
+const MessageAnalysisSchema = z.object({
+  clusters: z.array(TopicClusterSchema).default([]),
+  discardedMessageNumbers: z.array(z.number().int().positive()).default([]),
+  reasoning: z.string().default('')
+});
+
+interface TopicCluster {
+  title: string;
+  content: string;
+  messageIds: number[];
+  category: string;
+  tags: string[];
+}
+
+interface MessageAnalysis {
+  clusters: TopicCluster[];
+  // Casual chatter that will never become a post
+  discardedMessageIds: number[];
+  reasoning: string;
+  analysisId: number;
+  isFallback: boolean;
+}
+
+// The original messages as one post for a human to sort out
+function needsReviewCluster(messages: PendingMessage[]): TopicCluster {
+  return {
+    title: `Needs review: ${messages[0].text.split('\n')[0].slice(0, 80)}`,
+    content: messages.map(m => m.text).join('\n\n'),
+    messageIds: messages.map(m => m.id),
+    category: 'general',
+    tags: []
+  };
+}
+
+// Rough token budget for the messages sent to the model (~4 characters per token)
+const AI_MAX_INPUT_TOKENS = parseInt(process.env.AI_MAX_INPUT_TOKENS || '8000');
+const CHARS_PER_TOKEN = 4;
+
+// JSON Schema for structured output, minus keywords Gemini's responseSchema rejects
+function toProviderSchema(schema: z.ZodType): Record<string, unknown> {
+  const strip = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(strip);
+    if (!node || typeof node !== 'object') return node;
+    
+    const { $schema, additionalProperties, default: _default, ...rest } = node as Record<string, unknown>;
+    return Object.fromEntries(Object.entries(rest).map(([key, value]) => [key, strip(value)]));
+  };
   
-  let markdownContent = `---
-title: "${title}"
-date: ${date.toISOString()}
-categories: [telegram-posts]
-tags: [auto-generated]
----
+  return strip(z.toJSONSchema(schema)) as Record<string, unknown>;
+}
 
-${content}
-`;
+// Render messages for a prompt; described images and enriched sources are listed under the message they came with
+function formatMessagesForPrompt(
+  messages: PendingMessage[],
+  images: MediaAsset[] = [],
+  sources: Map<number, SourceDocument[]> = new Map()
+): string {
+  return messages.map((m, i) => {
+    let text = `[Message ${i + 1}] ${m.sender} at ${m.timestamp.toISOString()}: ${m.text}`;
+    if (m.transcript) text += `\n  [Transcript]\n${m.transcript}`;
+    
+    for (const url of m.media_urls || []) {
+      const image = images.find(asset => asset.url === url && asset.description);
+      if (!image) continue;
+      
+      text += `\n  [Image: ${image.description}]`;
+      if (image.ocr_text) text += `\n  [Text in image: ${image.ocr_text}]`;
+    }
+    
+    for (const source of sources.get(m.id) || []) {
+      text += `\n  [Source: ${source.title || source.url} — ${source.url}]\n  ${source.summary}`;
+    }
+    
+    return text;
+  }).join('\n\n');
+}
+
+// Oldest messages that fit the token budget, counting the image text and sources listed
+// with them; the first is cut down if it alone is too long
+function fitMessagesToBudget(
+  messages: PendingMessage[],
+  images: MediaAsset[] = [],
+  sources: Map<number, SourceDocument[]> = new Map(),
+  maxTokens = AI_MAX_INPUT_TOKENS
+): PendingMessage[] {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const fitted: PendingMessage[] = [];
+  let used = 0;
   
-  if (mediaUrls.length > 0) {
-    markdownContent += '\n\n## Media\n\n';
-    mediaUrls.forEach(url => {
-      markdownContent += `![Image](${url})\n\n`;
-    });
+  for (const m of messages) {
+    const size = formatMessagesForPrompt([m], images, sources).length + 2;
+    
+    if (fitted.length === 0 && size > maxChars) {
+      // Attachments are kept whole, so the message's own text gives way to them
+      const extras = formatMessagesForPrompt([{ ...m, text: '', transcript: null }], images, sources).length;
+      const text = m.text.slice(0, Math.max(0, maxChars - 200 - extras));
+      const transcript = m.transcript?.slice(0, Math.max(0, maxChars - 200 - extras - text.length));
+      fitted.push({ ...m, text: `${text}…`, transcript: transcript && `${transcript}…` });
+      break;
+    }
+    if (used + size > maxChars) break;
+    
+    fitted.push(m);
+    used += size;
   }
   
-  const response = await octokit.repos.createOrUpdateFileContents({
-    owner,
-    repo: repoName,
-    path: `_posts/${filename}`,
-    message: `Add post: ${title}`,
-    content: Buffer.from(markdownContent).toString('base64')
-  });
+  return fitted;
+}
+
+// Parse and validate a raw model response; returns the problem as a string on failure
+function parseAnalysis(raw: string): z.infer<typeof MessageAnalysisSchema> | string {
+  const jsonMatch = raw.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return 'Response contains no JSON object';
+  
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    return `Invalid JSON: ${errorMessage(error)}`;
+  }
   
-  return response.data.commit.sha!;
+  const result = MessageAnalysisSchema.safeParse(data);
+  return result.success
+    ? result.data
+    : result.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`).join('; ');
 }
 
-// Main menu
-function getMainMenu() {
-  return Markup.keyboard([
-    ['📊 Status', '⚙️ Settings'],
-    ['➕ Subscribe', '📋 List Sources'],
-    ['📝 Pending Posts', '👥 Manage Users']
-  ]).resize();
+// Taxonomy
+function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/^#/, '').replace(/[\s_]+/g, '-').replace(/[^\p{L}\p{N}-]/gu, '').slice(0, 100);
 }
 
-// Settings menu
-function getSettingsMenu(settings: UserSettings) {
-  return Markup.inlineKeyboard([
-    [Markup.button.callback(
-      `Auto-publish: ${settings.auto_publish ? '✅ ON' : '❌ OFF'}`,
-      'toggle_auto_publish'
-    )],
-    [Markup.button.callback(
-      `Combine time: ${settings.combine_threshold_minutes} min`,
-      'set_combine_time'
-    )],
-    [Markup.button.callback('🔗 Set Notion Database', 'set_notion_db')],
-    [Markup.button.callback('🔗 Set GitHub Repo', 'set_github_repo')],
-    [Markup.button.callback('« Back', 'back_to_main')]
-  ]);
+async function getTaxonomy(workspaceId: number): Promise<Taxonomy> {
+  const terms = await pool.query(
+    'SELECT kind, name FROM taxonomy_terms WHERE workspace_id = $1 ORDER BY name',
+    [workspaceId]
+  );
+  
+  return {
+    tags: terms.rows.filter(term => term.kind === 'tag').map(term => term.name),
+    categories: terms.rows.filter(term => term.kind === 'category').map(term => term.name)
+  };
 }
 
-// Bot commands
-bot.start(async (ctx) => {
-  const userId = ctx.from!.id;
+// Keep only labels the workspace's taxonomy allows, in its spelling; a category outside it is dropped
+function applyTaxonomy(labels: { category: string; tags: string[] }, taxonomy: Taxonomy): { category: string; tags: string[] } {
+  const tags = [...new Set(labels.tags.map(normalizeTag).filter(Boolean))];
   
-  await pool.query(
-    `INSERT INTO users (user_id, username, is_authorized) 
-     VALUES ($1, $2, $3) 
-     ON CONFLICT (user_id) DO NOTHING`,
-    [userId, ctx.from!.username, userId === parseInt(process.env.OWNER_USER_ID!)]
-  );
+  return {
+    category: taxonomy.categories.length > 0
+      ? taxonomy.categories.find(category => category.toLowerCase() === labels.category.toLowerCase()) || ''
+      : labels.category,
+    tags: taxonomy.tags.length > 0 ? tags.filter(tag => taxonomy.tags.includes(tag)) : tags
+  };
+}
+
+// AI message analysis: groups messages into topics, each of which becomes its own post.
+// Invalid output gets one repair round; if that fails too the messages are kept
+// verbatim as a pending post so a human can decide.
+async function analyzeMessages(
+  messages: PendingMessage[],
+  provider: LLMProvider,
+  userId: number,
+  taxonomy: Taxonomy,
+  images: MediaAsset[] = [],
+  sources: Map<number, SourceDocument[]> = new Map()
+): Promise<MessageAnalysis> {
+  const messageTexts = formatMessagesForPrompt(messages, images, sources);
+  const schema = toProviderSchema(MessageAnalysisSchema);
   
-  await pool.query(
-    `INSERT INTO user_settings (user_id) 
-     VALUES ($1) 
-     ON CONFLICT (user_id) DO NOTHING`,
-    [userId]
-  );
+  const categoryRule = taxonomy.categories.length > 0
+    ? `one category from this list: ${taxonomy.categories.join(', ')}`
+    : 'one short category';
+  const tagRule = taxonomy.tags.length > 0
+    ? `up to 5 tags from this list (use none if none fit): ${taxonomy.tags.join(', ')}`
+    : 'up to 5 lowercase tags';
+  
+  const prompt = `Analyze these Telegram messages and:
+1. Group the informational messages (content suitable for a blog/wiki post) into topics; unrelated topics become separate clusters
+2. For each cluster, suggest a title and write well-formatted markdown content combining its messages
+3. For each cluster, pick ${categoryRule} and ${tagRule} describing the topic
+4. List casual conversation that will never be worth a post as discarded
+5. Leave out of both lists any message that starts a discussion which looks unfinished, so it can be analyzed again with later messages
+
+Images attached to a message are described in [Image: ...] lines; use what they show (and any text in them) in the content where it helps.
+Voice notes and videos come with a timestamped [Transcript]; treat it as the message's text and quote it (with its timestamp) where the exact words matter.
+Linked pages and attached documents are summarized in [Source: title — url] lines; use them for context and cite them with markdown links to their url.
+
+Messages:
+${messageTexts}
+
+Respond in JSON format:
+{
+  "clusters": [
+    {
+      "title": "string",
+      "content": "string (markdown formatted)",
+      "messageNumbers": [number],
+      "category": "string",
+      "tags": ["string"]
+    }
+  ],
+  "discardedMessageNumbers": [number],
+  "reasoning": "string"
+}`;
+  
+  let raw = await provider.generateText(prompt, { json: true, schema });
+  let parsed = parseAnalysis(raw);
+  let wasRepaired = false;
+  let validationError: string | null = null;
   
-  if (!await isAuthorized(userId)) {
-    return ctx.reply('⛔ You are not authorized to use this bot. Contact the owner for access.');
+  if (typeof parsed === 'string') {
+    validationError = parsed;
+    wasRepaired = true;
+    
+    const repairPrompt = `The following response was supposed to be JSON matching this schema:
+${JSON.stringify(schema, null, 2)}
+
+It failed validation with: ${validationError}
+
+Response:
+${raw}
+
+Return only the corrected JSON object.`;
+    
+    raw = await provider.generateText(repairPrompt, { json: true, schema });
+    parsed = parseAnalysis(raw);
   }
   
-  await ctx.reply(
-    '🤖 *Telegram Wiki Bot*\n\n' +
-    'I monitor your selected channels and groups, analyze messages with AI, ' +
-    'and automatically create blog posts in Notion and GitHub Pages.\n\n' +
-    '*Features:*\n' +
-    '• AI-powered message analysis\n' +
-    '• Automatic content vs conversation detection\n' +
-    '• Smart message grouping\n' +
-    '• Dual publishing (Notion + GitHub)\n' +
-    '• Manual review option\n\n' +
-    'Use the menu below to get started!',
+  const usedFallback = typeof parsed === 'string';
+  if (usedFallback) validationError = `${validationError}; after repair: ${parsed}`;
+  
+  // Map [Message N] labels back to pending_messages ids, ignoring numbers out of range
+  const toIds = (numbers: number[]) => [...new Set(numbers)]
+    .filter(n => n >= 1 && n <= messages.length)
+    .map(n => messages[n - 1].id);
+  
+  const analysis: Omit<MessageAnalysis, 'analysisId' | 'isFallback'> = typeof parsed === 'string'
+    ? {
+      clusters: [needsReviewCluster(messages)],
+      discardedMessageIds: [],
+      reasoning: 'AI response could not be validated; kept the original messages for manual review'
+    }
+    : {
+      clusters: parsed.clusters
+        .map(cluster => ({ ...cluster, ...applyTaxonomy(cluster, taxonomy), messageIds: toIds(cluster.messageNumbers) }))
+        .filter(cluster => cluster.messageIds.length > 0),
+      discardedMessageIds: toIds(parsed.discardedMessageNumbers),
+      reasoning: parsed.reasoning
+    };
+  
+  const record = await pool.query(
+    `INSERT INTO ai_analyses
+       (user_id, provider, model, message_ids, input_tokens_estimate, raw_response, reasoning,
+        is_valid, was_repaired, used_fallback, validation_error)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+     RETURNING id`,
+    [
+      userId,
+      provider.name,
+      provider.model,
+      messages.map(m => m.id),
+      Math.ceil(prompt.length / CHARS_PER_TOKEN),
+      raw,
+      analysis.reasoning,
+      !usedFallback,
+      wasRepaired,
+      usedFallback,
+      validationError
+    ]
+  );
+  
+  return { ...analysis, analysisId: record.rows[0].id, isFallback: usedFallback };
+}
+
+const ImageDescriptionSchema = z.object({
+  altText: z.string().trim().max(250).default(''),
+  caption: z.string().trim().max(500).default(''),
+  description: z.string().trim().default(''),
+  ocrText: z.string().trim().default('')
+});
+
+function isImageAsset(asset: MediaAsset): boolean {
+  return asset.kind === 'photo' || asset.mime_type?.startsWith('image/');
+}
+
+// Analyze image with AI
+async function analyzeImage(asset: MediaAsset, provider: LLMProvider): Promise<z.infer<typeof ImageDescriptionSchema>> {
+  const raw = await provider.describeImage(
+    `Describe this image for a blog post. Focus on important information, data, or content visible in the image.
+Respond in JSON format:
+{
+  "altText": "string (one short sentence for screen readers)",
+  "caption": "string (a caption to show under the image)",
+  "description": "string (a detailed description)",
+  "ocrText": "string (all text visible in the image, verbatim, or empty)"
+}`,
+    await blobStore.get(asset.storage_key),
+    asset.mime_type || 'image/jpeg'
+  );
+  
+  const jsonMatch = raw.match(/\{[\s\S]*\}/);
+  try {
+    return ImageDescriptionSchema.parse(JSON.parse(jsonMatch ? jsonMatch[0] : raw));
+  } catch {
+    // Plain-text answers are still a usable description
+    return { altText: raw.split('\n')[0].slice(0, 250), caption: '', description: raw.trim(), ocrText: '' };
+  }
+}
+
+// Describe every not-yet-described image among the given media; results are cached on media_assets
+async function describeImages(mediaUrls: string[], provider: LLMProvider): Promise<MediaAsset[]> {
+  const assets = (await getMediaAssets(mediaUrls)).filter(isImageAsset);
+  
+  for (const asset of assets) {
+    if (asset.described_at) continue;
+    
+    try {
+      const description = await analyzeImage(asset, provider);
+      
+      Object.assign(asset, {
+        alt_text: description.altText,
+        caption: description.caption,
+        description: description.description,
+        ocr_text: description.ocrText
+      });
+      
+      await pool.query(
+        `UPDATE media_assets
+         SET alt_text = $1, caption = $2, description = $3, ocr_text = $4, described_at = NOW()
+         WHERE id = $5`,
+        [asset.alt_text, asset.caption, asset.description, asset.ocr_text, asset.id]
+      );
+    } catch (error) {
+      console.error(`Error describing image ${asset.id}:`, error);
+    }
+  }
+  
+  return assets;
+}
+
+// Transcription
+const TRANSCRIBABLE_KINDS: MediaKind[] = ['voice', 'audio', 'video_note', 'video'];
+// Failed transcriptions are retried after 1, 2, 4... minutes, then given up on
+const TRANSCRIPTION_MAX_ATTEMPTS = 5;
+
+// The file itself cannot be decoded, so retrying will not help
+class UndecodableAudioError extends Error {}
+
+// Decode errors and client errors from the API are permanent; timeouts, rate limits and 5xx are not
+function isPermanentTranscriptionError(error: unknown): boolean {
+  if (error instanceof UndecodableAudioError) return true;
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+  return status !== undefined && status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+const execFileAsync = promisify(execFile);
+
+// whisper.cpp run locally; ffmpeg converts any audio or video track to the 16 kHz mono WAV it expects
+function createWhisperCppTranscriber(binary: string, modelPath: string): Transcriber {
+  const ffmpeg = process.env.FFMPEG_BIN || 'ffmpeg';
+  
+  return {
+    name: 'whisper_cpp',
+    async transcribe(audio) {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'transcribe-'));
+      
+      try {
+        const input = path.join(dir, 'input');
+        const wav = path.join(dir, 'audio.wav');
+        await fs.writeFile(input, audio);
+        
+        try {
+          await execFileAsync(ffmpeg, ['-y', '-loglevel', 'error', '-i', input, '-vn', '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wav]);
+        } catch (error) {
+          throw new UndecodableAudioError(`ffmpeg could not decode the file: ${errorMessage(error)}`);
+        }
+        
+        await execFileAsync(binary, ['-m', modelPath, '-f', wav, '-l', 'auto', '-oj', '-of', path.join(dir, 'out'), '-np'], {
+          maxBuffer: 16 * 1024 * 1024
+        });
+        
+        const output: { transcription?: { offsets: { from: number; to: number }; text: string }[] } =
+          JSON.parse(await fs.readFile(path.join(dir, 'out.json'), 'utf8'));
+        return (output.transcription || []).map(segment => ({
+          start: segment.offsets.from / 1000,
+          end: segment.offsets.to / 1000,
+          text: String(segment.text).trim()
+        }));
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    }
+  };
+}
+
+// OpenAI's /audio/transcriptions endpoint, or any server that mirrors it
+function createOpenAITranscriber(model: string): Transcriber {
+  const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+  
+  return {
+    name: 'openai',
+    async transcribe(audio, mimeType) {
+      const extension = MIME_EXTENSIONS[mimeType] || '.ogg';
+      const form = new FormData();
+      form.append('file', new Blob([new Uint8Array(audio)], { type: mimeType }), `audio${extension}`);
+      form.append('model', model);
+      form.append('response_format', 'verbose_json');
+      
+      const response = await axios.post<{
+        text?: string;
+        segments?: { start: number; end: number; text: string }[];
+      }>(`${baseUrl}/audio/transcriptions`, form, {
+        headers: process.env.OPENAI_API_KEY ? { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` } : {}
+      });
+      
+      const segments = response.data.segments || [];
+      if (segments.length === 0) return [{ start: 0, end: 0, text: String(response.data.text || '').trim() }];
+      
+      return segments.map(segment => ({
+        start: segment.start,
+        end: segment.end,
+        text: String(segment.text).trim()
+      }));
+    }
+  };
+}
+
+// Chosen with TRANSCRIPTION_PROVIDER; transcription is off when it is unset
+function getTranscriber(): Transcriber | null {
+  switch (process.env.TRANSCRIPTION_PROVIDER) {
+    case 'whisper_cpp':
+      return createWhisperCppTranscriber(process.env.WHISPER_CPP_BIN || 'whisper-cli', process.env.WHISPER_CPP_MODEL!);
+    case 'openai':
+      return createOpenAITranscriber(process.env.OPENAI_TRANSCRIPTION_MODEL || 'whisper-1');
+    default:
+      return null;
+  }
+}
+
+const transcriber = getTranscriber();
+
+function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const clock = `${String(Math.floor(total / 60) % 60).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${clock}` : clock;
+}
+
+function formatTranscript(segments: TranscriptSegment[]): string {
+  return segments
+    .filter(segment => segment.text)
+    .map(segment => `[${formatTimestamp(segment.start)}] ${segment.text}`)
+    .join('\n');
+}
+
+// Transcribe the voice, audio and video attachments of messages that have no transcript yet.
+// Transcripts are cached per asset and copied onto the messages, which are updated in place.
+// Returns false while a failed transcription is waiting for its retry; the messages are not
+// ready for analysis until then.
+async function transcribeMessages(messages: PendingMessage[]): Promise<boolean> {
+  if (!transcriber) return true;
+  
+  let isReady = true;
+  
+  for (const message of messages) {
+    if (message.transcript != null) continue;
+    
+    const assets = (await getMediaAssets(message.media_urls || []))
+      .filter(asset => TRANSCRIBABLE_KINDS.includes(asset.kind));
+    if (assets.length === 0) continue;
+    
+    let isMessageReady = true;
+    
+    for (const asset of assets) {
+      if (asset.transcribed_at) continue;
+      if (asset.transcription_retry_at && asset.transcription_retry_at > new Date()) {
+        isMessageReady = false;
+        continue;
+      }
+      
+      try {
+        const segments = await transcriber.transcribe(await blobStore.get(asset.storage_key), asset.mime_type);
+        asset.transcript = formatTranscript(segments);
+      } catch (error) {
+        console.error(`Error transcribing ${asset.kind} ${asset.id}:`, error);
+        
+        const attempts = asset.transcription_attempts + 1;
+        const reason = errorMessage(error);
+        
+        if (!isPermanentTranscriptionError(error) && attempts < TRANSCRIPTION_MAX_ATTEMPTS) {
+          await pool.query(
+            `UPDATE media_assets
+             SET transcription_attempts = $2, transcription_error = $3,
+                 transcription_retry_at = NOW() + make_interval(mins => $4)
+             WHERE id = $1`,
+            [asset.id, attempts, reason, 2 ** (attempts - 1)]
+          );
+          isMessageReady = false;
+          continue;
+        }
+        
+        // Given up on: recorded with an empty transcript so the message is analyzed without it
+        await pool.query(
+          'UPDATE media_assets SET transcription_attempts = $2, transcription_error = $3 WHERE id = $1',
+          [asset.id, attempts, reason]
+        );
+        asset.transcript = '';
+      }
+      
+      await pool.query(
+        'UPDATE media_assets SET transcript = $1, transcribed_at = NOW() WHERE id = $2',
+        [asset.transcript, asset.id]
+      );
+    }
+    
+    if (!isMessageReady) {
+      isReady = false;
+      continue;
+    }
+    
+    message.transcript = assets
+      .filter(asset => asset.transcript)
+      .map(asset => assets.length > 1 ? `(${asset.kind.replace('_', ' ')})\n${asset.transcript}` : asset.transcript!)
+      .join('\n\n');
+    
+    await pool.query(
+      'UPDATE pending_messages SET transcript = $1 WHERE id = $2',
+      [message.transcript, message.id]
+    );
+  }
+  
+  return isReady;
+}
+
+// Enrichment
+const ENRICH_MAX_SOURCES = parseInt(process.env.ENRICH_MAX_SOURCES || '8');
+const ENRICH_MAX_DOWNLOAD_BYTES = 10 * 1024 * 1024;
+const SOURCE_SUMMARY_CHARS = 1200;
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const ENRICH_MAX_REDIRECTS = 5;
+
+// Links come from chat messages, so fetches must not reach loopback, private,
+// link-local or unique-local addresses (the bot's own network)
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isPublicAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isPublicAddress(mapped[1]);
+  return !BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+// DNS lookup for enrichment fetches; checked when connecting, so a name cannot pass
+// a check and then resolve somewhere else
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    
+    const blocked = addresses.find(address => !isPublicAddress(address.address));
+    if (blocked) return callback(new Error(`${hostname} resolves to a private address`), '');
+    
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const publicHttpAgent = new http.Agent({ lookup: publicLookup });
+const publicHttpsAgent = new https.Agent({ lookup: publicLookup });
+
+// GET a public http(s) URL. Redirects are followed here rather than by axios so each hop is checked too.
+async function fetchPublicUrl(url: string) {
+  let target = url;
+  
+  for (let hop = 0; hop <= ENRICH_MAX_REDIRECTS; hop++) {
+    const parsed = new URL(target);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new Error(`Unsupported protocol ${parsed.protocol}`);
+    }
+    
+    // IP literals never go through the lookup
+    const host = parsed.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host) && !isPublicAddress(host)) {
+      throw new Error(`${host} is a private address`);
+    }
+    
+    const response = await axios.get(target, {
+      responseType: 'arraybuffer',
+      timeout: 15000,
+      maxContentLength: ENRICH_MAX_DOWNLOAD_BYTES,
+      maxRedirects: 0,
+      proxy: false,
+      httpAgent: publicHttpAgent,
+      httpsAgent: publicHttpsAgent,
+      validateStatus: status => status < 400,
+      headers: { 'User-Agent': 'TelegramWikiBot/1.0 (+link enrichment)' }
+    });
+    
+    if (response.status < 300 || response.status >= 400 || !response.headers.location) return response;
+    target = new URL(String(response.headers.location), target).href;
+  }
+  
+  throw new Error('Too many redirects');
+}
+
+function extractUrls(text: string): string[] {
+  const urls = (text.match(/https?:\/\/[^\s<>()"']+/gi) || [])
+    .map(url => url.replace(/[.,;:!?]+$/, ''));
+  return [...new Set(urls)];
+}
+
+// Title and readable text of a fetched page, PDF or DOCX
+async function extractDocumentText(
+  data: Buffer,
+  mimeType: string,
+  url: string
+): Promise<{ title: string | null; content: string }> {
+  if (mimeType === 'application/pdf') {
+    const pdf = await pdfParse(data);
+    return { title: pdf.info?.Title || null, content: pdf.text };
+  }
+  
+  if (mimeType === DOCX_MIME_TYPE) {
+    const docx = await mammoth.extractRawText({ buffer: data });
+    return { title: null, content: docx.value };
+  }
+  
+  if (mimeType.startsWith('text/html') || mimeType.startsWith('application/xhtml')) {
+    const dom = new JSDOM(data.toString('utf8'), { url });
+    const article = new Readability(dom.window.document).parse();
+    return {
+      title: article?.title || dom.window.document.title || null,
+      content: article?.textContent || dom.window.document.body?.textContent || ''
+    };
+  }
+  
+  if (mimeType.startsWith('text/')) {
+    return { title: null, content: data.toString('utf8') };
+  }
+  
+  throw new Error(`Unsupported content type ${mimeType}`);
+}
+
+// Short texts are passed through; longer ones are summarized by the user's model
+async function summarizeSource(title: string | null, content: string, provider: LLMProvider): Promise<string> {
+  const text = content.replace(/\s+/g, ' ').trim();
+  if (text.length <= SOURCE_SUMMARY_CHARS) return text;
+  
+  const summary = await provider.generateText(`Summarize the following ${title ? `document "${title}"` : 'document'} in at most ${Math.floor(SOURCE_SUMMARY_CHARS / 6)} words. Keep names, numbers and conclusions; no preamble.
+
+${text.slice(0, AI_MAX_INPUT_TOKENS * CHARS_PER_TOKEN)}`);
+  
+  return summary.trim().slice(0, SOURCE_SUMMARY_CHARS);
+}
+
+// Fetch (or load from cache) one source; failures are cached for a day, with the error
+async function getSourceDocument(
+  url: string,
+  kind: SourceDocument['kind'],
+  provider: LLMProvider,
+  asset?: MediaAsset
+): Promise<SourceDocument> {
+  const cached = await pool.query<SourceDocument>(
+    `SELECT * FROM source_documents
+     WHERE url = $1 AND (error IS NULL OR fetched_at > NOW() - INTERVAL '1 day')`,
+    [url]
+  );
+  if (cached.rows.length > 0) return cached.rows[0];
+  
+  let title: string | null = null;
+  let content: string | null = null;
+  let summary: string | null = null;
+  let error: string | null = null;
+  
+  try {
+    let data: Buffer;
+    let mimeType: string;
+    
+    if (asset) {
+      data = await blobStore.get(asset.storage_key);
+      mimeType = asset.mime_type;
+    } else {
+      const response = await fetchPublicUrl(url);
+      data = Buffer.from(response.data);
+      mimeType = String(response.headers['content-type'] || 'text/html').split(';')[0].trim().toLowerCase();
+    }
+    
+    ({ title, content } = await extractDocumentText(data, mimeType, url));
+    summary = await summarizeSource(title, content, provider);
+  } catch (err) {
+    error = errorMessage(err);
+    console.error(`Error enriching ${url}:`, error);
+  }
+  
+  const result = await pool.query<SourceDocument>(
+    `INSERT INTO source_documents (url, kind, title, content, summary, error)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (url) DO UPDATE SET
+       title = EXCLUDED.title,
+       content = EXCLUDED.content,
+       summary = EXCLUDED.summary,
+       error = EXCLUDED.error,
+       fetched_at = NOW()
+     RETURNING *`,
+    [url, kind, title?.slice(0, 500) || null, content, summary, error]
+  );
+  return result.rows[0];
+}
+
+// Linked pages and attached PDF/DOCX documents of each message, keyed by pending message id.
+// Sources that could not be read are left out.
+async function enrichMessages(messages: PendingMessage[], provider: LLMProvider): Promise<Map<number, SourceDocument[]>> {
+  const sources = new Map<number, SourceDocument[]>();
+  let fetched = 0;
+  
+  for (const message of messages) {
+    const documents = (await getMediaAssets(message.media_urls || []))
+      .filter(asset => asset.kind === 'document' && !isImageAsset(asset));
+    const targets: { url: string; kind: SourceDocument['kind']; asset?: MediaAsset }[] = [
+      ...documents.map(asset => ({ url: asset.url, kind: 'document' as const, asset })),
+      ...extractUrls(message.text || '').map(url => ({ url, kind: 'link' as const }))
+    ];
+    
+    for (const target of targets) {
+      if (fetched >= ENRICH_MAX_SOURCES) break;
+      fetched++;
+      
+      const source = await getSourceDocument(target.url, target.kind, provider, target.asset);
+      if (source.error || !source.summary) continue;
+      
+      sources.set(message.id, [...(sources.get(message.id) || []), source]);
+    }
+  }
+  
+  return sources;
+}
+
+// Markdown "Sources" section listing the post's links, appended at publish time
+function withSourcesSection(content: string, sources: PostSource[]): string {
+  if (sources.length === 0) return content;
+  
+  const list = sources.map(source => `- [${source.title.replace(/[\[\]]/g, '')}](${source.url})`).join('\n');
+  return `${content.trimEnd()}\n\n## Sources\n\n${list}\n`;
+}
+
+// Notion API limits
+const NOTION_MAX_TEXT_LENGTH = 2000;
+const NOTION_MAX_RICH_TEXT_ITEMS = 100;
+const NOTION_MAX_CHILDREN = 100;
+
+const NOTION_CODE_LANGUAGES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  rb: 'ruby',
+  sh: 'shell',
+  zsh: 'shell',
+  console: 'shell',
+  yml: 'yaml',
+  md: 'markdown',
+  cs: 'c#',
+  csharp: 'c#',
+  cpp: 'c++',
+  'c++': 'c++',
+  kt: 'kotlin',
+  rs: 'rust',
+  golang: 'go',
+  dockerfile: 'docker',
+  html: 'html',
+  css: 'css',
+  json: 'json',
+  sql: 'sql',
+  bash: 'bash',
+  shell: 'shell',
+  go: 'go',
+  java: 'java',
+  kotlin: 'kotlin',
+  rust: 'rust',
+  php: 'php',
+  swift: 'swift',
+  c: 'c',
+  docker: 'docker',
+  graphql: 'graphql',
+  xml: 'xml',
+  yaml: 'yaml',
+  markdown: 'markdown',
+  javascript: 'javascript',
+  typescript: 'typescript',
+  python: 'python',
+  ruby: 'ruby',
+  powershell: 'powershell',
+  diff: 'diff'
+};
+
+interface RichTextAnnotations {
+  bold?: boolean;
+  italic?: boolean;
+  strikethrough?: boolean;
+  code?: boolean;
+}
+
+// The rich text and block JSON this file builds; the SDK's own request types are too strict
+// for blocks whose type is only known at runtime
+interface NotionRichText {
+  type: 'text';
+  text: { content: string; link: { url: string } | null };
+  annotations: RichTextAnnotations;
+}
+
+interface NotionBlock {
+  object: 'block';
+  type: string;
+  [type: string]: unknown;
+}
+
+function isHttpUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+// Split text into Notion text objects no longer than the rich_text limit
+function textToRichText(content: string, annotations: RichTextAnnotations = {}, link?: string): NotionRichText[] {
+  const items: NotionRichText[] = [];
+  
+  for (let i = 0; i < content.length; i += NOTION_MAX_TEXT_LENGTH) {
+    items.push({
+      type: 'text',
+      text: {
+        content: content.slice(i, i + NOTION_MAX_TEXT_LENGTH),
+        link: link && isHttpUrl(link) ? { url: link } : null
+      },
+      annotations
+    });
+  }
+  
+  return items;
+}
+
+// Parse inline markdown (bold, italic, strikethrough, code, links) into rich_text
+function parseInlineMarkdown(text: string, annotations: RichTextAnnotations = {}): NotionRichText[] {
+  const pattern = /`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\*([^*]+)\*|(?<![\w])_([^_]+)_(?![\w])/g;
+  const items: NotionRichText[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      items.push(...textToRichText(text.slice(lastIndex, match.index), annotations));
+    }
+    
+    const [, code, linkText, linkUrl, bold, boldAlt, strike, italic, italicAlt] = match;
+    
+    if (code !== undefined) {
+      items.push(...textToRichText(code, { ...annotations, code: true }));
+    } else if (linkText !== undefined) {
+      for (const item of parseInlineMarkdown(linkText, annotations)) {
+        if (isHttpUrl(linkUrl)) item.text.link = { url: linkUrl };
+        items.push(item);
+      }
+    } else if (bold !== undefined || boldAlt !== undefined) {
+      items.push(...parseInlineMarkdown(bold ?? boldAlt, { ...annotations, bold: true }));
+    } else if (strike !== undefined) {
+      items.push(...parseInlineMarkdown(strike, { ...annotations, strikethrough: true }));
+    } else {
+      items.push(...parseInlineMarkdown(italic ?? italicAlt, { ...annotations, italic: true }));
+    }
+    
+    lastIndex = pattern.lastIndex;
+  }
+  
+  if (lastIndex < text.length) {
+    items.push(...textToRichText(text.slice(lastIndex), annotations));
+  }
+  
+  return items;
+}
+
+// Build one or more blocks of a text type, splitting rich_text past the per-block limit
+function textBlocks(type: string, richText: NotionRichText[], extra: Record<string, unknown> = {}): NotionBlock[] {
+  const blocks: NotionBlock[] = [];
+  
+  for (let i = 0; i < Math.max(richText.length, 1); i += NOTION_MAX_RICH_TEXT_ITEMS) {
+    blocks.push({
+      object: 'block',
+      type,
+      [type]: { rich_text: richText.slice(i, i + NOTION_MAX_RICH_TEXT_ITEMS), ...extra }
+    });
+  }
+  
+  return blocks;
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+// Convert AI-generated markdown into native Notion blocks
+function markdownToNotionBlocks(markdown: string): NotionBlock[] {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const blocks: NotionBlock[] = [];
+  let paragraph: string[] = [];
+  
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    blocks.push(...textBlocks('paragraph', parseInlineMarkdown(paragraph.join('\n'))));
+    paragraph = [];
+  };
+  
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    
+    // Fenced code block
+    const fence = trimmed.match(/^(```|~~~)\s*([\w#+-]*)/);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push(...textBlocks('code', textToRichText(code.join('\n')), {
+        language: NOTION_CODE_LANGUAGES[fence[2].toLowerCase()] || 'plain text'
+      }));
+      continue;
+    }
+    
+    if (trimmed === '') {
+      flushParagraph();
+      i++;
+      continue;
+    }
+    
+    // Heading (Notion only has three levels)
+    const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      const level = Math.min(heading[1].length, 3);
+      blocks.push(...textBlocks(`heading_${level}`, parseInlineMarkdown(heading[2].replace(/\s+#+$/, ''))));
+      i++;
+      continue;
+    }
+    
+    if (/^(-{3,}|\*{3,}|_{3,})$/.test(trimmed)) {
+      flushParagraph();
+      blocks.push({ object: 'block', type: 'divider', divider: {} });
+      i++;
+      continue;
+    }
+    
+    // Standalone image
+    const image = trimmed.match(/^!\[([^\]]*)\]\(([^)\s]+)\)$/);
+    if (image && isHttpUrl(image[2])) {
+      flushParagraph();
+      blocks.push({
+        object: 'block',
+        type: 'image',
+        image: {
+          type: 'external',
+          external: { url: image[2] },
+          caption: image[1] ? textToRichText(image[1]) : []
+        }
+      });
+      i++;
+      continue;
+    }
+    
+    // Block quote (consecutive "> " lines form one quote)
+    if (trimmed.startsWith('>')) {
+      flushParagraph();
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].trim().startsWith('>')) {
+        quote.push(lines[i].trim().replace(/^>\s?/, ''));
+        i++;
+      }
+      blocks.push(...textBlocks('quote', parseInlineMarkdown(quote.join('\n'))));
+      continue;
+    }
+    
+    // Table: header row followed by a |---|---| separator
+    if (trimmed.startsWith('|') && i + 1 < lines.length && /^\|?\s*:?-{3,}/.test(lines[i + 1].trim())) {
+      flushParagraph();
+      const header = splitTableRow(trimmed);
+      const rows = [header];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith('|')) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      blocks.push({
+        object: 'block',
+        type: 'table',
+        table: {
+          table_width: header.length,
+          has_column_header: true,
+          has_row_header: false,
+          children: rows.map(row => ({
+            object: 'block',
+            type: 'table_row',
+            table_row: {
+              cells: header.map((_, col) => parseInlineMarkdown(row[col] || ''))
+            }
+          }))
+        }
+      });
+      continue;
+    }
+    
+    // Bulleted / numbered list items, with one level of nesting
+    const listItem = line.match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+    if (listItem) {
+      flushParagraph();
+      const type = /\d/.test(listItem[2]) ? 'numbered_list_item' : 'bulleted_list_item';
+      const [block] = textBlocks(type, parseInlineMarkdown(listItem[3]));
+      const parent = blocks[blocks.length - 1];
+      
+      if (listItem[1].length >= 2 && parent && /list_item$/.test(parent.type)) {
+        const item = parent[parent.type] as { children?: NotionBlock[] };
+        item.children = [...(item.children || []), block];
+      } else {
+        blocks.push(block);
+      }
+      i++;
+      continue;
+    }
+    
+    paragraph.push(trimmed);
+    i++;
+  }
+  
+  flushParagraph();
+  return blocks;
+}
+
+// Notion blocks for a stored media asset (or a plain external image for legacy URLs).
+// Images get their caption, plus a toggle with any text read from them.
+function mediaToNotionBlocks(url: string, asset?: MediaAsset): NotionBlock[] {
+  let type = 'image';
+  if (asset?.kind === 'video' || asset?.kind === 'video_note') type = 'video';
+  if (asset?.kind === 'voice' || asset?.kind === 'audio') type = 'audio';
+  if (asset?.kind === 'document' && !isImageAsset(asset)) {
+    type = asset.mime_type === 'application/pdf' ? 'pdf' : 'file';
+  }
+  
+  const caption = asset?.caption || asset?.alt_text;
+  
+  const blocks: NotionBlock[] = [{
+    object: 'block',
+    type,
+    [type]: {
+      type: 'external',
+      external: { url },
+      ...(type === 'image' && caption ? { caption: textToRichText(caption) } : {})
+    }
+  }];
+  
+  if (type === 'image' && asset?.ocr_text) {
+    blocks.push({
+      object: 'block',
+      type: 'toggle',
+      toggle: {
+        rich_text: textToRichText('Text in image'),
+        children: textBlocks('paragraph', textToRichText(asset.ocr_text)).slice(0, NOTION_MAX_CHILDREN)
+      }
+    });
+  }
+  
+  return blocks;
+}
+
+// IDs of every top-level block on a Notion page
+async function listNotionBlockIds(pageId: string): Promise<string[]> {
+  let cursor: string | undefined;
+  const blockIds: string[] = [];
+  
+  do {
+    const response = await notion.blocks.children.list({ block_id: pageId, start_cursor: cursor });
+    blockIds.push(...response.results.map(block => block.id));
+    cursor = response.has_more ? response.next_cursor ?? undefined : undefined;
+  } while (cursor);
+  
+  return blockIds;
+}
+
+// Append blocks in batches of 100. Tables longer than that are created with their
+// first 100 rows and the remaining rows are appended to the table block itself.
+async function appendNotionBlocks(blockId: string, children: NotionBlock[]) {
+  const extraRows = new Map<number, NotionBlock[]>();
+  const blocks = children.map((block, index) => {
+    const table = block.table as { children: NotionBlock[] } | undefined;
+    if (block.type !== 'table' || !table || table.children.length <= NOTION_MAX_CHILDREN) return block;
+    extraRows.set(index, table.children.slice(NOTION_MAX_CHILDREN));
+    return { ...block, table: { ...table, children: table.children.slice(0, NOTION_MAX_CHILDREN) } };
+  });
+  
+  for (let i = 0; i < blocks.length; i += NOTION_MAX_CHILDREN) {
+    const response = await notion.blocks.children.append({
+      block_id: blockId,
+      children: blocks.slice(i, i + NOTION_MAX_CHILDREN) as BlockObjectRequest[]
+    });
+    
+    for (const [index, rows] of extraRows) {
+      if (index < i || index >= i + NOTION_MAX_CHILDREN) continue;
+      const tableId = response.results[index - i].id;
+      for (let j = 0; j < rows.length; j += NOTION_MAX_CHILDREN) {
+        await notion.blocks.children.append({
+          block_id: tableId,
+          children: rows.slice(j, j + NOTION_MAX_CHILDREN) as BlockObjectRequest[]
+        });
+      }
+    }
+  }
+}
+
+// Publish to Notion (replaces the content of pageId in place when given)
+async function publishToNotion(
+  databaseId: string,
+  title: string,
+  content: string,
+  mediaUrls: string[],
+  labels: PostLabels,
+  pageId?: string
+): Promise<string> {
+  const assets = await getMediaAssets(mediaUrls);
+  const children = markdownToNotionBlocks(content);
+  const labelProperties = await notionLabelProperties(databaseId, labels);
+  
+  for (const url of mediaUrls) {
+    children.push(...mediaToNotionBlocks(url, assets.find(a => a.url === url)));
+  }
+  
+  if (pageId) {
+    await withNotionPropertyCheck(databaseId, () => notion.pages.update({
+      page_id: pageId,
+      properties: {
+        Name: {
+          title: [{
+            text: { content: title }
+          }]
+        },
+        ...labelProperties
+      }
+    }));
+    
+    // New content goes in before the old is removed, so a failed append never leaves the page empty
+    const oldBlockIds = await listNotionBlockIds(pageId);
+    await appendNotionBlocks(pageId, children);
+    
+    for (const blockId of oldBlockIds) {
+      await notion.blocks.delete({ block_id: blockId });
+    }
+    
+    return pageId;
+  }
+  
+  const response = await withNotionPropertyCheck(databaseId, () => notion.pages.create({
+    parent: { database_id: databaseId },
+    properties: {
+      Name: {
+        title: [{
+          text: { content: title }
+        }]
+      },
+      Status: {
+        select: { name: 'Published' }
+      },
+      Created: {
+        date: { start: new Date().toISOString() }
+      },
+      ...labelProperties
+    }
+  }));
+  
+  // Content goes in afterwards so long pages and tables can be split into batches
+  await appendNotionBlocks(response.id, children);
+  
+  return response.id;
+}
+
+// Property types per Notion database, looked up once per process
+const notionDatabaseProperties = new Map<string, Record<string, string>>();
+
+// "Tags" (multi-select) and "Category" (select) properties, for databases that have them
+async function notionLabelProperties(databaseId: string, labels: PostLabels): Promise<NotionLabelProperties> {
+  if (!notionDatabaseProperties.has(databaseId)) {
+    const database = await notion.databases.retrieve({ database_id: databaseId });
+    const properties = 'properties' in database ? database.properties : {};
+    notionDatabaseProperties.set(
+      databaseId,
+      Object.fromEntries(Object.entries(properties).map(([name, property]) => [name, property.type]))
+    );
+  }
+  
+  const types = notionDatabaseProperties.get(databaseId)!;
+  // Select option names cannot contain commas
+  const option = (name: string) => ({ name: name.replace(/,/g, ' ').slice(0, 100) });
+  const properties: NotionLabelProperties = {};
+  
+  if (types.Tags === 'multi_select') {
+    properties.Tags = { multi_select: labels.tags.map(option) };
+  }
+  if (types.Category === 'select') {
+    properties.Category = { select: labels.category ? option(labels.category) : null };
+  }
+  
+  return properties;
+}
+
+// A Tags or Category property renamed or retyped in Notion since it was cached shows up as a
+// validation error; the database's property types are then looked up again on the next attempt
+async function withNotionPropertyCheck<T>(databaseId: string, request: () => Promise<T>): Promise<T> {
+  try {
+    return await request();
+  } catch (error) {
+    if (isNotionClientError(error) && error.code === APIErrorCode.ValidationError) {
+      notionDatabaseProperties.delete(databaseId);
+    }
+    throw error;
+  }
+}
+
+// Repository folder that post media is committed under
+const GITHUB_ASSETS_PATH = (process.env.GITHUB_ASSETS_PATH || 'assets').replace(/^\/+|\/+$/g, '');
+
+// Publish to GitHub Pages (post and media land in a single commit).
+// Passing existingPath rewrites that post file instead of adding a new one.
+async function publishToGitHub(
+  target: GitHubTarget,
+  title: string,
+  content: string,
+  mediaUrls: string[],
+  labels: PostLabels,
+  existingPath?: string,
+  publishedAt?: Date
+): Promise<{ sha: string; path: string }> {
+  const [owner, repoName] = target.repo.split('/');
+  const date = publishedAt || new Date();
+  const filename = `${date.toISOString().split('T')[0]}-${title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.md`;
+  const postPath = existingPath || `${(target.folder || '_posts').replace(/^\/+|\/+$/g, '')}/${filename}`;
+  
+  const assets = await getMediaAssets(mediaUrls);
+  
+  let markdownContent = `---
+title: "${title}"
+date: ${date.toISOString()}
+categories: ${JSON.stringify(labels.category ? [labels.category] : ['telegram-posts'])}
+tags: ${JSON.stringify(labels.tags)}
+---
+
+${content}
+`;
+  
+  if (mediaUrls.length > 0) {
+    markdownContent += '\n\n## Media\n\n';
+    mediaUrls.forEach(url => {
+      const asset = assets.find(a => a.url === url);
+      
+      if (asset && !isImageAsset(asset)) {
+        markdownContent += `[${asset.kind.replace('_', ' ')}](${url})\n\n`;
+        return;
+      }
+      
+      const alt = (asset?.alt_text || 'Image').replace(/[\[\]]/g, '');
+      markdownContent += `![${alt}](${url})\n`;
+      if (asset?.caption) markdownContent += `*${asset.caption}*\n`;
+      if (asset?.ocr_text) {
+        markdownContent += `\n<details><summary>Text in image</summary>\n\n${asset.ocr_text}\n\n</details>\n`;
+      }
+      markdownContent += '\n';
+    });
+  }
+  
+  // Point every stored asset at its committed copy instead of the blob store
+  const assetFiles = assets.map(asset => ({
+    asset,
+    path: `${GITHUB_ASSETS_PATH}/${path.basename(asset.storage_key)}`
+  }));
+  for (const { asset, path: assetPath } of assetFiles) {
+    markdownContent = markdownContent
+      .split(asset.url)
+      .join(`{{ '/${assetPath}' | relative_url }}`);
+  }
+  
+  const branch = target.branch
+    || (await octokit.repos.get({ owner, repo: repoName })).data.default_branch;
+  
+  const { data: ref } = await octokit.git.getRef({ owner, repo: repoName, ref: `heads/${branch}` });
+  const { data: parent } = await octokit.git.getCommit({
+    owner,
+    repo: repoName,
+    commit_sha: ref.object.sha
+  });
+  
+  const tree: { path: string; mode: '100644'; type: 'blob'; sha: string }[] = [];
+  
+  for (const { asset, path: assetPath } of assetFiles) {
+    const { data: blob } = await octokit.git.createBlob({
+      owner,
+      repo: repoName,
+      content: (await blobStore.get(asset.storage_key)).toString('base64'),
+      encoding: 'base64'
+    });
+    tree.push({ path: assetPath, mode: '100644', type: 'blob', sha: blob.sha });
+  }
+  
+  const { data: postBlob } = await octokit.git.createBlob({
+    owner,
+    repo: repoName,
+    content: markdownContent,
+    encoding: 'utf-8'
+  });
+  
+  // Nothing to commit if the existing file already has this exact content
+  if (existingPath && assetFiles.length === 0) {
+    const currentSha = await getGitHubFileSha(owner, repoName, existingPath, branch);
+    if (currentSha === postBlob.sha) {
+      return { sha: ref.object.sha, path: postPath };
+    }
+  }
+  
+  tree.push({ path: postPath, mode: '100644', type: 'blob', sha: postBlob.sha });
+  
+  const { data: newTree } = await octokit.git.createTree({
+    owner,
+    repo: repoName,
+    base_tree: parent.tree.sha,
+    tree
+  });
+  
+  const { data: commit } = await octokit.git.createCommit({
+    owner,
+    repo: repoName,
+    message: `${existingPath ? 'Update' : 'Add'} post: ${title}`,
+    tree: newTree.sha,
+    parents: [parent.sha]
+  });
+  
+  await octokit.git.updateRef({
+    owner,
+    repo: repoName,
+    ref: `heads/${branch}`,
+    sha: commit.sha
+  });
+  
+  return { sha: commit.sha, path: postPath };
+}
+
+// Blob sha of a file on a branch, or undefined if it does not exist
+async function getGitHubFileSha(owner: string, repo: string, filePath: string, ref: string): Promise<string | undefined> {
+  try {
+    const { data } = await octokit.repos.getContent({ owner, repo, path: filePath, ref });
+    return Array.isArray(data) ? undefined : data.sha;
+  } catch (error) {
+    if (errorStatus(error) === 404) return undefined;
+    throw error;
+  }
+}
+
+// Find active sources monitoring a chat (and forum topic, if any)
+async function getMatchingSources(chatId: number, topicId?: number): Promise<MonitoredSource[]> {
+  const result = await pool.query<MonitoredSource>(
+    `SELECT * FROM monitored_sources
+     WHERE chat_id = $1 AND is_active = true
+       AND (topic_id IS NULL OR topic_id = $2)`,
+    [chatId, topicId ?? null]
+  );
+  
+  return result.rows;
+}
+
+// Describe who sent a message
+function getSenderName(msg: Message): string {
+  if ('author_signature' in msg && msg.author_signature) return msg.author_signature;
+  if (msg.sender_chat && 'title' in msg.sender_chat) return msg.sender_chat.title;
+  if (msg.from) {
+    return msg.from.username
+      ? `@${msg.from.username}`
+      : [msg.from.first_name, msg.from.last_name].filter(Boolean).join(' ');
+  }
+  return 'unknown';
+}
+
+// Store an incoming message for every source that monitors its chat
+async function ingestMessage(msg: Message) {
+  const text = 'text' in msg ? msg.text : 'caption' in msg ? msg.caption : undefined;
+  const media = extractMedia(msg);
+  if (!text && media.length === 0) return;
+  
+  const topicId = msg.is_topic_message ? msg.message_thread_id : undefined;
+  const sources = await getMatchingSources(msg.chat.id, topicId);
+  if (sources.length === 0) return;
+  
+  const mediaUrls: string[] = [];
+  for (const item of media) {
+    try {
+      const asset = await storeTelegramMedia(item);
+      if (asset) mediaUrls.push(asset.url);
+    } catch (error) {
+      console.error(`Error downloading ${item.kind}:`, error);
+    }
+  }
+  
+  for (const source of sources) {
+    await pool.query(
+      `INSERT INTO pending_messages (source_id, message_id, text, media_urls, sender, timestamp)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (source_id, message_id) DO UPDATE SET
+         text = EXCLUDED.text,
+         media_urls = EXCLUDED.media_urls,
+         transcript = CASE WHEN pending_messages.media_urls = EXCLUDED.media_urls THEN pending_messages.transcript END`,
+      [source.id, msg.message_id, text || '', mediaUrls, getSenderName(msg), new Date(msg.date * 1000)]
+    );
+  }
+}
+
+// Telegram's legacy Markdown has no escapes inside an entity, so text shown in bold only loses
+// the asterisks that would end it early; text outside entities has its markup characters escaped
+function escapeMarkdown(text: string): string {
+  return text.replace(/[_*`[]/g, '\\$&');
+}
+
+function boldMarkdown(text: string): string {
+  return `*${text.replace(/\*/g, '')}*`;
+}
+
+// Main menu
+const MAIN_MENU_BUTTONS = [
+  ['📊 Status', '⚙️ Settings'],
+  ['➕ Subscribe', '📋 List Sources'],
+  ['📝 Pending Posts', '👥 Manage Users']
+];
+
+function getMainMenu() {
+  return Markup.keyboard(MAIN_MENU_BUTTONS).resize();
+}
+
+// Settings menu
+function getSettingsMenu(settings: WorkspaceSettings) {
+  return Markup.inlineKeyboard([
+    [Markup.button.callback(
+      `Auto-publish: ${settings.auto_publish ? '✅ ON' : '❌ OFF'}`,
+      'toggle_auto_publish'
+    )],
+    [Markup.button.callback(
+      `Combine time: ${settings.combine_threshold_minutes} min`,
+      'set_combine_time'
+    )],
+    [Markup.button.callback(
+      `🔗 Set Notion Database${settings.notion_database_id ? ' ✅' : ''}`,
+      'set_notion_db'
+    )],
+    [Markup.button.callback(
+      `🔗 Set GitHub Repo${settings.github_repo ? ` (${settings.github_repo})` : ''}`,
+      'set_github_repo'
+    )],
+    [
+      Markup.button.callback(`🤖 AI: ${settings.ai_provider || 'gemini'}`, 'set_ai_provider'),
+      Markup.button.callback(
+        `Model: ${settings.ai_model || DEFAULT_AI_MODELS[settings.ai_provider || 'gemini']}`,
+        'set_ai_model'
+      )
+    ],
+    [Markup.button.callback('« Back', 'back_to_main')]
+  ]);
+}
+
+// Pending post review keyboard
+function getPendingPostKeyboard(postId: number) {
+  return Markup.inlineKeyboard([
+    [
+      Markup.button.callback('✅ Publish', `publish_${postId}`),
+      Markup.button.callback('❌ Reject', `reject_${postId}`)
+    ],
+    [Markup.button.callback('✏️ Edit', `edit_${postId}`)]
+  ]);
+}
+
+// Message ingestion
+bot.on('channel_post', async (ctx) => {
+  try {
+    await ingestMessage(ctx.channelPost);
+  } catch (error) {
+    console.error('Error ingesting channel post:', error);
+  }
+});
+
+bot.on('edited_channel_post', async (ctx) => {
+  try {
+    await ingestMessage(ctx.editedChannelPost);
+  } catch (error) {
+    console.error('Error ingesting edited channel post:', error);
+  }
+});
+
+bot.on(['message', 'edited_message'], async (ctx, next) => {
+  const msg = ctx.message ?? ctx.editedMessage;
+  if (!msg || msg.chat.type === 'private') return next();
+  
+  // Commands issued inside groups are handled below, not archived
+  if ('text' in msg && msg.text.startsWith('/')) return next();
+  
+  // Replies to the bot's answers are questions for the wiki, not content
+  if (
+    ctx.message && 'text' in msg && msg.reply_to_message?.from?.id === ctx.botInfo.id &&
+    await isAnswerMessage(msg.chat.id, msg.reply_to_message.message_id)
+  ) {
+    return answerGroupReply(ctx, msg);
+  }
+  
+  try {
+    await ingestMessage(msg);
+  } catch (error) {
+    console.error('Error ingesting group message:', error);
+  }
+});
+
+// Bot commands
+bot.start(async (ctx) => {
+  const userId = ctx.from!.id;
+  
+  await pool.query(
+    `INSERT INTO users (user_id, username) 
+     VALUES ($1, $2) 
+     ON CONFLICT (user_id) DO NOTHING`,
+    [userId, ctx.from!.username]
+  );
+  
+  // Invite links open the bot with /start join_<code>
+  const inviteCode = ctx.payload.match(/^join_(\S+)$/)?.[1];
+  if (inviteCode) {
+    const joined = await joinWorkspace(userId, inviteCode, ctx.from!.username);
+    await ctx.reply(
+      joined
+        ? `👋 You joined ${boldMarkdown(joined.workspace.name)}.${joined.importRequested ? IMPORT_REQUESTED_NOTE : ''}`
+        : '❌ That invite link is no longer valid.',
+      { parse_mode: 'Markdown' }
+    );
+  }
+  
+  // Everyone else gets a workspace by joining one or being authorized into one
+  if (userId === OWNER_USER_ID) {
+    await ensureWorkspace(userId, ctx.from!.username);
+  }
+  
+  if (!await getUserRole(userId, await getUserWorkspaceId(userId))) {
+    return denyAccess(ctx);
+  }
+  
+  await ctx.reply(
+    '🤖 *Telegram Wiki Bot*\n\n' +
+    'I monitor your selected channels and groups, analyze messages with AI, ' +
+    'and automatically create blog posts in Notion and GitHub Pages.\n\n' +
+    '*Features:*\n' +
+    '• AI-powered message analysis\n' +
+    '• Automatic content vs conversation detection\n' +
+    '• Smart message grouping\n' +
+    '• Dual publishing (Notion + GitHub)\n' +
+    '• Manual review option\n\n' +
+    'Use the menu below to get started!',
+    { parse_mode: 'Markdown', ...getMainMenu() }
+  );
+});
+
+bot.hears('📊 Status', requirePermission('view'), async (ctx) => {
+  const stats = await pool.query(`
+    SELECT 
+      (SELECT COUNT(*) FROM monitored_sources WHERE workspace_id = $1 AND is_active = true) as active_sources,
+      (SELECT COUNT(*) FROM pending_messages pm 
+       JOIN monitored_sources ms ON pm.source_id = ms.id 
+       WHERE ms.workspace_id = $1 AND pm.is_processed = false) as pending_messages,
+      (SELECT COUNT(*) FROM blog_posts WHERE workspace_id = $1 AND status = 'pending') as pending_posts,
+      (SELECT COUNT(*) FROM blog_posts WHERE workspace_id = $1 AND status = 'scheduled') as scheduled_posts,
+      (SELECT COUNT(*) FROM blog_posts WHERE workspace_id = $1 AND status = 'published') as published_posts
+  `, [ctx.access.workspaceId]);
+  
+  const row = stats.rows[0];
+  
+  const settings = await getWorkspace(ctx.access.workspaceId!);
+  const windows = await getWorkspaceWindows(ctx.access.workspaceId!);
+  const sources = await pool.query<MonitoredSource>(
+    'SELECT * FROM monitored_sources WHERE id = ANY($1)',
+    [[...windows.keys()]]
+  );
+  
+  let windowLines = '';
+  for (const source of sources.rows) {
+    const sourceWindows = windows.get(source.id) || [];
+    const closed = sourceWindows.filter(w => w.isClosed);
+    const open = sourceWindows.find(w => !w.isClosed);
+    
+    windowLines += `• *${source.chat_title}*: ${closed.length} closed`;
+    if (closed.length > 0) {
+      windowLines += ` (oldest from ${closed[0].messages[0].timestamp.toISOString().replace('T', ' ').slice(0, 16)})`;
+    }
+    if (open) {
+      const quietFor = Math.floor((Date.now() - open.messages[open.messages.length - 1].timestamp.getTime()) / 60000);
+      windowLines += `, 1 open (${open.messages.length} msgs, quiet ${quietFor}/${settings.combine_threshold_minutes} min)`;
+    }
+    windowLines += '\n';
+  }
+  
+  await ctx.reply(
+    `📊 *Bot Status*\n\n` +
+    `✅ Active Sources: ${row.active_sources}\n` +
+    `📨 Pending Messages: ${row.pending_messages}\n` +
+    `📝 Posts Awaiting Review: ${row.pending_posts}\n` +
+    `🗓 Scheduled Posts: ${row.scheduled_posts}\n` +
+    `✨ Published Posts: ${row.published_posts}\n\n` +
+    (windowLines ? `🪟 *Message Windows*\n${windowLines}\n` : '') +
+    `🤖 Bot is running and monitoring your sources.`,
+    { parse_mode: 'Markdown' }
+  );
+});
+
+bot.hears('⚙️ Settings', requirePermission('manage_settings'), async (ctx) => {
+  const settings = await getWorkspace(ctx.access.workspaceId!);
+  
+  await ctx.reply(
+    '⚙️ *Bot Settings*\n\nConfigure how the bot processes and publishes content:',
+    { parse_mode: 'Markdown', ...getSettingsMenu(settings) }
+  );
+});
+
+bot.action('toggle_auto_publish', requirePermission('manage_settings'), async (ctx) => {
+  const workspaceId = ctx.access.workspaceId!;
+  
+  await pool.query(
+    'UPDATE workspaces SET auto_publish = NOT auto_publish WHERE id = $1',
+    [workspaceId]
+  );
+  
+  const settings = await getWorkspace(workspaceId);
+  
+  await ctx.editMessageReplyMarkup(getSettingsMenu(settings).reply_markup);
+  await ctx.answerCbQuery(`Auto-publish ${settings.auto_publish ? 'enabled' : 'disabled'}`);
+});
+
+// Properties publishToNotion writes, with the Notion type each must have
+const REQUIRED_NOTION_PROPERTIES: Record<string, string> = {
+  Name: 'title',
+  Status: 'select',
+  Created: 'date'
+};
+
+// Validate a combine window in minutes
+function validateCombineTime(input: string): number {
+  const minutes = Number(input.trim());
+  
+  if (!Number.isInteger(minutes) || minutes < 1 || minutes > 1440) {
+    throw new Error('Combine time must be a whole number of minutes between 1 and 1440.');
+  }
+  
+  return minutes;
+}
+
+// Database ID from a raw ID or a notion.so link. The ID has to end the path segment,
+// so page slugs and query strings that merely contain hex digits do not match.
+function extractNotionDatabaseId(input: string): string | null {
+  const match = input.trim().match(/([0-9a-f]{32}|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})(?=[?/#]|$)/i);
+  return match ? match[1].replace(/-/g, '').toLowerCase() : null;
+}
+
+// Validate a Notion database ID or URL; returns the normalized database ID
+async function validateNotionDatabase(input: string): Promise<string> {
+  const databaseId = extractNotionDatabaseId(input);
+  if (!databaseId) {
+    throw new Error('That does not look like a Notion database ID or link.');
+  }
+  
+  let properties: Record<string, { type: string }>;
+  
+  try {
+    const database = await notion.databases.retrieve({ database_id: databaseId });
+    properties = 'properties' in database ? database.properties : {};
+  } catch (error) {
+    throw new Error(
+      isNotionClientError(error) && error.code === APIErrorCode.ObjectNotFound
+        ? 'Database not found. Make sure it is shared with the bot integration.'
+        : `Could not read the database: ${errorMessage(error)}`
+    );
+  }
+  
+  const problems = Object.entries(REQUIRED_NOTION_PROPERTIES)
+    .filter(([name, type]) => properties[name]?.type !== type)
+    .map(([name, type]) => `${name} (${type})`);
+  
+  if (problems.length > 0) {
+    throw new Error(`The database is missing required properties: ${problems.join(', ')}.`);
+  }
+  
+  return databaseId;
+}
+
+// Validate a GitHub repository ("owner/repo" or URL); returns "owner/repo"
+async function validateGitHubRepo(input: string): Promise<string> {
+  const match = input.trim()
+    .replace(/^https?:\/\/github\.com\//i, '')
+    .replace(/\.git$/, '')
+    .match(/^([\w.-]+)\/([\w.-]+)\/?$/);
+  
+  if (!match) {
+    throw new Error('Send the repository as owner/repo or a github.com link.');
+  }
+  
+  let repo: Awaited<ReturnType<typeof octokit.repos.get>>['data'];
+  
+  try {
+    ({ data: repo } = await octokit.repos.get({ owner: match[1], repo: match[2] }));
+  } catch (error) {
+    throw new Error(
+      errorStatus(error) === 404
+        ? 'Repository not found, or the token cannot see it.'
+        : `Could not read the repository: ${errorMessage(error)}`
+    );
+  }
+  
+  if (!repo.permissions?.push) {
+    throw new Error('The GitHub token does not have push access to this repository.');
+  }
+  
+  return repo.full_name;
+}
+
+// Validate a model name; "default" clears it back to the provider's default
+function validateAIModel(input: string): string | null {
+  const model = input.trim();
+  if (model.toLowerCase() === 'default') return null;
+  
+  if (!/^[\w.:\/@-]{1,255}$/.test(model)) {
+    throw new Error('Model names may only contain letters, digits and . : / @ - _');
+  }
+  
+  return model;
+}
+
+const SETTING_PROMPTS: Record<SettingKey, string> = {
+  combine_time: '⏱ Send the combine time in minutes (1-1440).',
+  notion_db: '🔗 Send the Notion database link or ID.\n\nThe database must be shared with the bot and have *Name* (title), *Status* (select) and *Created* (date) properties.',
+  github_repo: '🔗 Send the GitHub repository as `owner/repo`.\n\nThe bot token needs push access to it.',
+  ai_model: '🤖 Send the model name to use with your AI provider (e.g. `gemini-1.5-pro`, `llama3.1:8b`), or `default`.'
+};
+
+const settingsScene = new Scenes.BaseScene<BotContext>('settings_input');
+
+settingsScene.enter(async (ctx) => {
+  const { settingKey } = ctx.scene.state as { settingKey: SettingKey };
+  ctx.scene.session.settingKey = settingKey;
+  
+  await ctx.reply(`${SETTING_PROMPTS[settingKey]}\n\nSend /cancel to keep the current value.`, { parse_mode: 'Markdown' });
+});
+
+settingsScene.command('cancel', async (ctx) => {
+  await ctx.scene.leave();
+  await ctx.reply('✖️ Settings unchanged.');
+});
+
+settingsScene.on(message('text'), async (ctx) => {
+  const workspaceId = ctx.access.workspaceId!;
+  const input = ctx.message.text;
+  
+  try {
+    switch (ctx.scene.session.settingKey) {
+      case 'combine_time':
+        await pool.query(
+          'UPDATE workspaces SET combine_threshold_minutes = $1 WHERE id = $2',
+          [validateCombineTime(input), workspaceId]
+        );
+        break;
+      case 'notion_db':
+        await pool.query(
+          'UPDATE workspaces SET notion_database_id = $1 WHERE id = $2',
+          [await validateNotionDatabase(input), workspaceId]
+        );
+        break;
+      case 'github_repo':
+        await pool.query(
+          'UPDATE workspaces SET github_repo = $1 WHERE id = $2',
+          [await validateGitHubRepo(input), workspaceId]
+        );
+        break;
+      case 'ai_model':
+        await pool.query(
+          'UPDATE workspaces SET ai_model = $1 WHERE id = $2',
+          [validateAIModel(input), workspaceId]
+        );
+        break;
+    }
+  } catch (error) {
+    return ctx.reply(`❌ ${errorMessage(error)}\n\nTry again or send /cancel.`);
+  }
+  
+  await ctx.scene.leave();
+  
+  const settings = await getWorkspace(workspaceId);
+  await ctx.reply(
+    '✅ Settings saved.',
+    { parse_mode: 'Markdown', ...getSettingsMenu(settings) }
+  );
+});
+
+stage.register(settingsScene);
+
+bot.action(/set_(combine_time|notion_db|github_repo|ai_model)$/, requirePermission('manage_settings'), async (ctx) => {
+  await ctx.answerCbQuery();
+  await ctx.scene.enter('settings_input', { settingKey: ctx.match![1] as SettingKey });
+});
+
+bot.action('set_ai_provider', requirePermission('manage_settings'), async (ctx) => {
+  await ctx.answerCbQuery();
+  await ctx.editMessageReplyMarkup(Markup.inlineKeyboard([
+    [Markup.button.callback('Google Gemini', 'ai_provider_gemini')],
+    [Markup.button.callback('OpenAI-compatible (OpenAI, Ollama, llama.cpp)', 'ai_provider_openai')],
+    ...(FAKE_AI_ENABLED ? [[Markup.button.callback('Fake (offline, deterministic)', 'ai_provider_fake')]] : []),
+    [Markup.button.callback('« Back', 'ai_provider_back')]
+  ]).reply_markup);
+});
+
+bot.action(/ai_provider_(gemini|openai|fake|back)/, requirePermission('manage_settings'), async (ctx) => {
+  const workspaceId = ctx.access.workspaceId!;
+  const provider = ctx.match![1];
+  
+  if (provider === 'fake' && !FAKE_AI_ENABLED) {
+    return ctx.answerCbQuery('❌ The fake provider is only available in tests');
+  }
+  
+  // Switching provider resets the model to that provider's default
+  if (provider !== 'back') {
+    await pool.query(
+      'UPDATE workspaces SET ai_provider = $1, ai_model = NULL WHERE id = $2',
+      [provider, workspaceId]
+    );
+  }
+  
+  const settings = await getWorkspace(workspaceId);
+  
+  await ctx.editMessageReplyMarkup(getSettingsMenu(settings).reply_markup);
+  await ctx.answerCbQuery(provider === 'back' ? undefined : `AI provider: ${provider}`);
+});
+
+bot.action('back_to_main', async (ctx) => {
+  await ctx.answerCbQuery();
+  await ctx.deleteMessage();
+  await ctx.reply('🏠 Main menu', getMainMenu());
+});
+
+bot.hears('➕ Subscribe', requirePermission('manage_sources'), async (ctx) => {
+  await ctx.reply(
+    '📢 *Subscribe to Channel/Group*\n\n' +
+    'Forward me a message from the channel you want to monitor, ' +
+    'or add me to the group, give me admin rights to read messages and send /subscribe there. ' +
+    'Send /subscribe inside a forum topic to monitor only that topic.\n\n' +
+    'I will confirm once the source is added.',
+    { parse_mode: 'Markdown' }
+  );
+});
+
+bot.hears('📋 List Sources', requirePermission('view'), async (ctx) => {
+  const sources = await pool.query<MonitoredSource>(
+    'SELECT * FROM monitored_sources WHERE workspace_id = $1 ORDER BY created_at DESC',
+    [ctx.access.workspaceId]
+  );
+  
+  if (sources.rows.length === 0) {
+    return ctx.reply('📭 No monitored sources yet. Use ➕ Subscribe to add some!');
+  }
+  
+  let message = '📋 *Monitored Sources*\n\n';
+  
+  for (const source of sources.rows) {
+    const status = source.is_active ? '✅' : '❌';
+    message += `${status} *${source.chat_title}*\n`;
+    message += `   Type: ${source.chat_type}\n`;
+    message += `   ID: \`${source.id}\`\n\n`;
+  }
+  
+  message += 'Use /unsubscribe <id> to remove a source';
+  
+  await ctx.reply(message, { parse_mode: 'Markdown' });
+});
+
+bot.hears('📝 Pending Posts', requirePermission('view'), async (ctx) => {
+  // The workspace's queue if the user's role reviews, plus posts from sources they were given review rights on
+  const posts = await pool.query<BlogPost & { required_approvals: number; approvals: string; objections: string }>(
+    `SELECT bp.*, w.required_approvals,
+       (SELECT COUNT(*) FROM post_reviews pr WHERE pr.post_id = bp.id AND pr.decision = 'approve') AS approvals,
+       (SELECT COUNT(*) FROM post_reviews pr WHERE pr.post_id = bp.id AND pr.decision = 'reject') AS objections
+     FROM blog_posts bp
+     LEFT JOIN workspaces w ON w.id = bp.workspace_id
+     WHERE bp.status IN ('pending', 'failed')
+       AND ((bp.workspace_id = $4 AND $2) OR bp.source_id IN (
+         SELECT source_id FROM source_permissions WHERE user_id = $1 AND role = ANY($3)
+       ))
+     ORDER BY bp.created_at DESC LIMIT 10`,
+    [ctx.from!.id, ctx.access.permissions.has('review'), ROLES.filter(role => ROLE_PERMISSIONS[role].includes('review')), ctx.access.workspaceId]
+  );
+  
+  if (posts.rows.length === 0) {
+    return ctx.reply('📭 No pending posts. All caught up!');
+  }
+  
+  for (const post of posts.rows) {
+    if (post.duplicate_of) {
+      await sendDuplicateReview(post.id);
+      continue;
+    }
+    
+    const keyboard = post.status === 'failed'
+      ? Markup.inlineKeyboard([[
+        Markup.button.callback('🔁 Retry', `retry_${post.id}`),
+        Markup.button.callback('❌ Reject', `reject_${post.id}`)
+      ]])
+      : getPendingPostKeyboard(post.id);
+    
+    let message = `${post.status === 'failed' ? '⚠️ *Failed: ' : '📝 *'}${post.title}*\n\n${post.content.substring(0, 500)}`;
+    if (post.content.length > 500) message += '...';
+    if (post.approvals !== '0' || post.objections !== '0') {
+      message += `\n\n👍 ${post.approvals}/${post.required_approvals ?? 1} approvals`;
+      if (post.objections !== '0') message += ` · 👎 ${post.objections} objection(s)`;
+    }
+    
+    await ctx.reply(message, { parse_mode: 'Markdown', ...keyboard });
+  }
+});
+
+// Members of the workspace and anyone holding a role on one of its sources
+bot.hears('👥 Manage Users', requirePermission('manage_users'), async (ctx) => {
+  const users = await pool.query(
+    `SELECT u.user_id, u.username, m.role,
+            ARRAY(
+              SELECT sp.role || ' of ' || COALESCE(ms.chat_title, sp.source_id::text)
+              FROM source_permissions sp
+              JOIN monitored_sources ms ON ms.id = sp.source_id
+              WHERE sp.user_id = u.user_id AND ms.workspace_id = $1
+            ) AS grants
+     FROM users u
+     LEFT JOIN workspace_members m ON m.workspace_id = $1 AND m.user_id = u.user_id
+     WHERE m.user_id IS NOT NULL OR EXISTS (
+       SELECT 1 FROM source_permissions sp
+       JOIN monitored_sources ms ON ms.id = sp.source_id
+       WHERE sp.user_id = u.user_id AND ms.workspace_id = $1
+     )
+     ORDER BY u.created_at DESC`,
+    [ctx.access.workspaceId]
+  );
+  
+  let message = '👥 *User Management*\n\n';
+  
+  for (const user of users.rows) {
+    const role = Number(user.user_id) === OWNER_USER_ID ? 'owner' : user.role;
+    message += `${role ? '✅' : '❌'} @${escapeMarkdown(user.username || 'unknown')} (\`${user.user_id}\`) — ${role || 'no role'}\n`;
+    if (user.grants.length > 0) message += `   ${escapeMarkdown(user.grants.join(', '))}\n`;
+  }
+  
+  message += `\nRoles: ${ROLES.join(', ')}\n\n`;
+  message += 'Use /authorize <user\\_id> [role] to give a role in this workspace (default: editor)\n';
+  message += 'Use /grant <user\\_id> <source\\_id> <role> to give a role on one source\n';
+  message += 'Use /revoke <user\\_id> [source\\_id] to remove access';
+  
+  await ctx.reply(message, { parse_mode: 'Markdown' });
+});
+
+bot.command('authorize', requirePermission('manage_users'), async (ctx) => {
+  const [, userId, roleName = 'editor'] = ctx.message.text.split(/\s+/);
+  if (!isId(userId) || !isRole(roleName.toLowerCase())) {
+    return ctx.reply(`Usage: /authorize <user_id> [${ROLES.filter(role => role !== 'owner').join('|')}]`);
+  }
+  
+  const role = roleName.toLowerCase() as Role;
+  const targetId = parseInt(userId);
+  const workspaceId = ctx.access.workspaceId!;
+  
+  if (!canAssignRole(ctx.access.role, await getUserRole(targetId, workspaceId), role)) {
+    return ctx.reply(`⛔ Your role (${ctx.access.role}) cannot give or change that role.`);
+  }
+  
+  // Users who are not working in any workspace yet are moved into this one
+  const user = await pool.query(
+    'UPDATE users SET workspace_id = COALESCE(workspace_id, $2) WHERE user_id = $1 RETURNING workspace_id',
+    [targetId, workspaceId]
+  );
+  
+  if (user.rows.length === 0) {
+    return ctx.reply('❌ Unknown user. They need to send /start to the bot first.');
+  }
+  
+  await pool.query(
+    `INSERT INTO workspace_members (workspace_id, user_id, role, added_by) VALUES ($1, $2, $3, $4)
+     ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = EXCLUDED.role, added_by = EXCLUDED.added_by`,
+    [workspaceId, targetId, role, ctx.from.id]
+  );
+  
+  const note = user.rows[0].workspace_id === workspaceId
+    ? ''
+    : '\n\nThey are working in another workspace; the role applies once they join this one with its invite link (see /workspace).';
+  await ctx.reply(`✅ User ${userId} is now ${role === 'admin' ? 'an' : 'a'} ${role} in this workspace.${note}`);
+});
+
+bot.command('grant', requirePermission('manage_users'), async (ctx) => {
+  const [, userId, sourceId, roleName] = ctx.message.text.split(/\s+/);
+  const role = roleName?.toLowerCase();
+  
+  if (!isId(userId) || !isId(sourceId) || !role || !['viewer', 'reviewer', 'editor'].includes(role)) {
+    return ctx.reply('Usage: /grant <user_id> <source_id> <viewer|reviewer|editor>');
+  }
+  
+  const targetId = parseInt(userId);
+  
+  if (!canAssignRole(ctx.access.role, await getUserRole(targetId, ctx.access.workspaceId), role as Role)) {
+    return ctx.reply(`⛔ Your role (${ctx.access.role}) cannot change that user's access.`);
+  }
+  
+  const result = await pool.query(
+    `INSERT INTO source_permissions (source_id, user_id, role, granted_by)
+     SELECT ms.id, u.user_id, $3, $4
+     FROM monitored_sources ms, users u
+     WHERE ms.id = $1 AND ms.workspace_id = $5 AND u.user_id = $2
+     ON CONFLICT (source_id, user_id) DO UPDATE SET role = EXCLUDED.role, granted_by = EXCLUDED.granted_by`,
+    [parseInt(sourceId), targetId, role, ctx.from.id, ctx.access.workspaceId]
+  );
+  
+  if (result.rowCount === 0) {
+    return ctx.reply('❌ Unknown user or source. Check 👥 Manage Users and 📋 List Sources.');
+  }
+  
+  const note = await getUserRole(targetId, await getUserWorkspaceId(targetId))
+    ? ''
+    : '\n\nThey have no role of their own yet; /authorize them as at least a viewer so they can use the bot.';
+  await ctx.reply(`✅ User ${userId} is now a ${role} of source ${sourceId}.${note}`);
+});
+
+bot.command('revoke', requirePermission('manage_users'), async (ctx) => {
+  const [, userId, sourceId] = ctx.message.text.split(/\s+/);
+  if (!isId(userId) || (sourceId && !isId(sourceId))) {
+    return ctx.reply('Usage: /revoke <user_id> [source_id]');
+  }
+  
+  const targetId = parseInt(userId);
+  const workspaceId = ctx.access.workspaceId!;
+  
+  if (!canAssignRole(ctx.access.role, await getUserRole(targetId, workspaceId), null)) {
+    return ctx.reply(`⛔ Your role (${ctx.access.role}) cannot revoke that user.`);
+  }
+  
+  if (sourceId) {
+    const result = await pool.query(
+      `DELETE FROM source_permissions sp USING monitored_sources ms
+       WHERE sp.user_id = $1 AND sp.source_id = $2 AND ms.id = sp.source_id AND ms.workspace_id = $3`,
+      [targetId, parseInt(sourceId), workspaceId]
+    );
+    return ctx.reply(result.rowCount ? `✅ Removed user ${userId}'s role on source ${sourceId}.` : '❌ No such grant.');
+  }
+  
+  // Their roles elsewhere are untouched; only this workspace and its sources are closed to them
+  await pool.query('DELETE FROM workspace_members WHERE workspace_id = $1 AND user_id = $2', [workspaceId, targetId]);
+  await pool.query(
+    `DELETE FROM source_permissions sp USING monitored_sources ms
+     WHERE sp.user_id = $1 AND ms.id = sp.source_id AND ms.workspace_id = $2`,
+    [targetId, workspaceId]
+  );
+  await pool.query('UPDATE users SET workspace_id = NULL WHERE user_id = $1 AND workspace_id = $2', [targetId, workspaceId]);
+  
+  await ctx.reply(`✅ User ${userId} no longer has access to this workspace.`);
+});
+
+// Workspace membership
+bot.command('workspace', requirePermission('view'), async (ctx) => {
+  const [, action, ...args] = ctx.message.text.trim().split(/\s+/);
+  const workspaceId = ctx.access.workspaceId;
+  
+  if (action) {
+    if (!ctx.access.permissions.has('manage_settings')) return denyAccess(ctx);
+    
+    if (action === 'rename' && args.length > 0) {
+      await pool.query('UPDATE workspaces SET name = $2 WHERE id = $1', [workspaceId, args.join(' ').slice(0, 255)]);
+      return ctx.reply('✅ Workspace renamed.');
+    }
+    
+    if (action === 'invite') {
+      // A new code invalidates links shared earlier
+      await pool.query('UPDATE workspaces SET invite_code = $2 WHERE id = $1', [workspaceId, generateInviteCode()]);
+    } else {
+      return ctx.reply('Usage: /workspace [rename <name> | invite]');
+    }
+  }
+  
+  const workspace = await pool.query<Workspace>('SELECT * FROM workspaces WHERE id = $1', [workspaceId]);
+  if (workspace.rows.length === 0) {
+    return ctx.reply('❌ You are not in a workspace yet. Send /start first.');
+  }
+  
+  const members = await pool.query(
+    `SELECT m.user_id, u.username, m.role
+     FROM workspace_members m
+     JOIN users u ON u.user_id = m.user_id
+     WHERE m.workspace_id = $1
+     ORDER BY m.created_at ASC`,
+    [workspaceId]
+  );
+  
+  const { name, invite_code: code } = workspace.rows[0];
+  let message = `👥 ${boldMarkdown(name)}\n\n`;
+  
+  for (const member of members.rows) {
+    const role = Number(member.user_id) === OWNER_USER_ID ? 'owner' : member.role;
+    message += `• @${escapeMarkdown(member.username || 'unknown')} — ${role || 'no access'}\n`;
+  }
+  
+  message += `\nInvite code: \`${code}\`\n`;
+  message += `Invite link: ${escapeMarkdown(`https://t.me/${ctx.botInfo.username}?start=join_${code}`)}\n\n`;
+  message += 'New members join with /join <code> and start as viewers.\n';
+  message += 'Use /workspace invite to replace the code, /workspace rename <name> to rename';
+  
+  await ctx.reply(message, { parse_mode: 'Markdown' });
+});
+
+bot.command('policy', requirePermission('view'), async (ctx) => {
+  const [, setting, value] = ctx.message.text.trim().split(/\s+/);
+  const workspaceId = ctx.access.workspaceId!;
+  
+  if (setting) {
+    if (!ctx.access.permissions.has('manage_users')) return denyAccess(ctx);
+    
+    const approvals = parseInt(value);
+    if (setting === 'approvals' && approvals >= 1 && approvals <= 10) {
+      await pool.query('UPDATE workspaces SET required_approvals = $2 WHERE id = $1', [workspaceId, approvals]);
+    } else if (setting === 'veto' && (value === 'any' || value === 'admin')) {
+      await pool.query('UPDATE workspaces SET veto = $2 WHERE id = $1', [workspaceId, value]);
+    } else {
+      return ctx.reply('Usage: /policy [approvals <1-10> | veto <any|admin>]');
+    }
+  }
+  
+  const policy = await getApprovalPolicy(workspaceId);
+  
+  await ctx.reply(
+    '⚖️ *Approval Policy*\n\n' +
+    `Approvals needed to publish: ${policy.required_approvals}\n` +
+    (policy.required_approvals > 1 ? 'Auto-publish is off while more than one approval is needed\n' : '') +
+    `Rejections: ${policy.veto === 'admin' ? 'only admins can reject; other reviewers file objections' : 'any reviewer can reject'}\n\n` +
+    'Change with /policy approvals <n> or /policy veto <any|admin>',
+    { parse_mode: 'Markdown' }
+  );
+});
+
+bot.command('join', async (ctx) => {
+  const code = ctx.message.text.split(/\s+/)[1];
+  if (!code) {
+    return ctx.reply('Usage: /join <invite_code>');
+  }
+  
+  const joined = await joinWorkspace(ctx.from.id, code, ctx.from.username);
+  if (!joined) {
+    return ctx.reply('❌ Unknown invite code. Ask a member of the workspace for a fresh one.');
+  }
+  
+  await ctx.reply(
+    `👋 You are now a member of ${boldMarkdown(joined.workspace.name)}. Its sources, review queue and destinations are shared with you.` +
+    (joined.importRequested ? IMPORT_REQUESTED_NOTE : ''),
     { parse_mode: 'Markdown', ...getMainMenu() }
   );
 });
 
-bot.hears('📊 Status', async (ctx) => {
-  if (!await isAuthorized(ctx.from!.id)) return;
+bot.action(/^import_(\d+)$/, requirePermission('manage_users'), async (ctx) => {
+  const imported = await importWorkspace(parseInt(ctx.match[1]), ctx.access.workspaceId!);
+  if (!imported) {
+    return ctx.answerCbQuery('❌ This import was already handled');
+  }
+  
+  await ctx.answerCbQuery('✅ Imported');
+  await ctx.editMessageReplyMarkup(undefined);
+});
+
+bot.action(/^keepapart_(\d+)$/, requirePermission('manage_users'), async (ctx) => {
+  const result = await pool.query(
+    'UPDATE workspaces SET import_requested_into = NULL WHERE id = $1 AND import_requested_into = $2',
+    [parseInt(ctx.match[1]), ctx.access.workspaceId]
+  );
+  if (result.rowCount === 0) {
+    return ctx.answerCbQuery('❌ This import was already handled');
+  }
+  
+  await ctx.answerCbQuery('🙅 Kept apart');
+  await ctx.editMessageReplyMarkup(undefined);
+});
+
+// Monitor a chat (or topic) for a workspace, reactivating an earlier source for it if there is one.
+// Returns false when the workspace already monitors it.
+async function subscribeSource(
+  workspaceId: number,
+  userId: number,
+  chatId: number,
+  chatTitle: string,
+  chatType: string,
+  topicId?: number | null
+): Promise<boolean> {
+  const existing = await pool.query<MonitoredSource>(
+    `SELECT * FROM monitored_sources
+     WHERE workspace_id = $1 AND chat_id = $2 AND topic_id IS NOT DISTINCT FROM $3
+     ORDER BY is_active DESC, id ASC LIMIT 1`,
+    [workspaceId, chatId, topicId ?? null]
+  );
+  
+  if (existing.rows[0]?.is_active) return false;
+  
+  if (existing.rows.length > 0) {
+    await pool.query(
+      'UPDATE monitored_sources SET is_active = true, chat_title = $2 WHERE id = $1',
+      [existing.rows[0].id, chatTitle]
+    );
+  } else {
+    await pool.query(
+      `INSERT INTO monitored_sources (user_id, workspace_id, chat_id, chat_title, chat_type, topic_id, is_active)
+       VALUES ($1, $2, $3, $4, $5, $6, true)`,
+      [userId, workspaceId, chatId, chatTitle, chatType, topicId ?? null]
+    );
+  }
+  
+  return true;
+}
+
+bot.command('unsubscribe', requirePermission('manage_sources'), async (ctx) => {
+  const sourceId = ctx.message.text.split(' ')[1];
+  if (!sourceId) {
+    return ctx.reply('Usage: /unsubscribe <source_id>');
+  }
+  
+  await pool.query(
+    'UPDATE monitored_sources SET is_active = false WHERE id = $1 AND workspace_id = $2',
+    [parseInt(sourceId), ctx.access.workspaceId]
+  );
+  
+  await ctx.reply('✅ Source unsubscribed successfully.');
+});
+
+bot.command('subscribe', requirePermission('manage_sources'), async (ctx) => {
+  if (ctx.chat.type !== 'group' && ctx.chat.type !== 'supergroup') {
+    return ctx.reply('Add me to a group and send /subscribe there, or forward me a message from a channel.');
+  }
+  
+  const topicId = ctx.message.is_topic_message ? ctx.message.message_thread_id : null;
+  
+  if (!await subscribeSource(ctx.access.workspaceId!, ctx.from.id, ctx.chat.id, ctx.chat.title, ctx.chat.type, topicId)) {
+    return ctx.reply('ℹ️ Your workspace already monitors this chat.');
+  }
+  
+  await ctx.reply(
+    `✅ Now monitoring *${ctx.chat.title}*${topicId ? ' (this topic only)' : ''}.`,
+    { parse_mode: 'Markdown' }
+  );
+});
+
+// Handle forwarded messages for subscription
+bot.on(message('forward_origin'), requirePermission('manage_sources'), async (ctx) => {
+  const forwardOrigin = ctx.message.forward_origin;
+  let chatId: number;
+  let chatTitle: string;
+  let chatType: string;
+  
+  if (forwardOrigin.type === 'channel') {
+    chatId = forwardOrigin.chat.id;
+    chatTitle = forwardOrigin.chat.title!;
+    chatType = 'channel';
+  } else {
+    return ctx.reply('❌ Please forward a message from a channel.');
+  }
+  
+  if (!await subscribeSource(ctx.access.workspaceId!, ctx.from!.id, chatId, chatTitle, chatType)) {
+    return ctx.reply(`ℹ️ Your workspace already monitors *${chatTitle}*.`, { parse_mode: 'Markdown' });
+  }
+  
+  await ctx.reply(
+    `✅ Successfully subscribed to *${chatTitle}*!\n\n` +
+    `I will now monitor messages from this ${chatType} and create wiki posts.`,
+    { parse_mode: 'Markdown' }
+  );
+});
+
+// Source that contributed most of the messages in a batch
+function getPrimarySourceId(messages: PendingMessage[]): number {
+  const counts = new Map<number, number>();
+  for (const m of messages) counts.set(m.source_id, (counts.get(m.source_id) || 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+}
+
+// Does a routing rule's condition match a post?
+function ruleMatchesPost(rule: RoutingRule, post: BlogPost): boolean {
+  if (rule.source_id && rule.source_id !== post.source_id) return false;
+  
+  const pattern = (rule.pattern || '').toLowerCase();
+  
+  switch (rule.match_type) {
+    case 'any':
+      return true;
+    case 'keyword':
+      return `${post.title}\n${post.content}`.toLowerCase().includes(pattern);
+    case 'tag':
+      return (post.tags || []).some(tag => tag.toLowerCase() === pattern);
+    case 'category':
+      return (post.category || '').toLowerCase() === pattern;
+    default:
+      return false;
+  }
+}
+
+// Work out where a post goes: every destination with a matching workspace rule, else the workspace's defaults
+async function resolveDestinations(post: BlogPost): Promise<ResolvedDestination[]> {
+  const rules = await pool.query<RoutingRule & PublishDestination>(
+    `SELECT r.*, d.name, d.notion_database_id, d.github_repo, d.github_branch, d.github_folder
+     FROM routing_rules r
+     JOIN publish_destinations d ON r.destination_id = d.id
+     WHERE r.workspace_id = $1 AND r.is_active = true
+     ORDER BY r.priority DESC, r.id ASC`,
+    [post.workspace_id]
+  );
+  
+  const destinations = new Map<string, ResolvedDestination>();
+  
+  for (const rule of rules.rows) {
+    if (!ruleMatchesPost(rule, post)) continue;
+    
+    const key = `destination:${rule.destination_id}`;
+    if (!destinations.has(key)) {
+      destinations.set(key, {
+        key,
+        name: rule.name,
+        notion_database_id: rule.notion_database_id,
+        github_repo: rule.github_repo,
+        github_branch: rule.github_branch,
+        github_folder: rule.github_folder
+      });
+    }
+  }
+  
+  if (destinations.size > 0) return [...destinations.values()];
+  
+  const settings = await getWorkspace(post.workspace_id);
+  if (!settings.notion_database_id && !settings.github_repo) return [];
+  
+  return [{
+    key: 'default',
+    name: 'Default',
+    notion_database_id: settings.notion_database_id,
+    github_repo: settings.github_repo
+  }];
+}
+
+// Job queue
+const JOB_POLL_INTERVAL_MS = 2000;
+const JOB_LOCK_TIMEOUT_MINUTES = 10;
+const JOB_HEARTBEAT_INTERVAL_MS = 60 * 1000;
+const JOB_MAX_BACKOFF_SECONDS = 60 * 60;
+// A user whose analyze job died is not queued again until this long after it gave up
+const ANALYZE_DEAD_COOLDOWN_MINUTES = 60;
+
+let jobWorkerStopped = false;
+
+// Queue a job; a job with the same dedupe key that is still queued or running wins
+async function enqueueJob<T extends JobType>(type: T, payload: JobPayloads[T], dedupeKey?: string, maxAttempts = 5) {
+  await pool.query(
+    `INSERT INTO jobs (type, payload, dedupe_key, max_attempts)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (dedupe_key) WHERE status IN ('queued', 'running') DO NOTHING`,
+    [type, JSON.stringify(payload), dedupeKey ?? null, maxAttempts]
+  );
+}
+
+// Atomically claim the next due job; concurrent workers skip rows already locked
+async function claimNextJob(): Promise<Job | null> {
+  const result = await pool.query<Job>(
+    `UPDATE jobs SET status = 'running', attempts = attempts + 1, locked_at = NOW(), updated_at = NOW()
+     WHERE id = (
+       SELECT id FROM jobs
+       WHERE status = 'queued' AND run_at <= NOW()
+       ORDER BY run_at, id
+       FOR UPDATE SKIP LOCKED
+       LIMIT 1
+     )
+     RETURNING *`
+  );
+  
+  return result.rows[0] || null;
+}
+
+// Put jobs whose worker died mid-run back in the queue
+async function releaseStaleJobs() {
+  await pool.query(
+    `UPDATE jobs SET status = 'queued', locked_at = NULL, updated_at = NOW()
+     WHERE status = 'running' AND locked_at < NOW() - make_interval(mins => $1)`,
+    [JOB_LOCK_TIMEOUT_MINUTES]
+  );
+}
+
+const jobHandlers: { [T in JobType]: (payload: JobPayloads[T]) => Promise<void> } = {
+  analyze: payload => analyzeUserMessages(payload.userId),
+  publish_notion: payload => runPublishJob('notion', payload),
+  publish_github: payload => runPublishJob('github', payload),
+  embed_post: payload => embedPost(payload.postId),
+  digest: payload => generateDigest(payload.digestId, new Date(payload.periodStart), new Date(payload.periodEnd))
+};
+
+function handleJob<T extends JobType>(job: Job<T>): Promise<void> {
+  return jobHandlers[job.type](job.payload);
+}
+
+function isPublishJob(job: Job): job is Job<'publish_notion' | 'publish_github'> {
+  return job.type === 'publish_notion' || job.type === 'publish_github';
+}
+
+async function runJob(job: Job) {
+  // Long jobs keep their lock fresh so releaseStaleJobs does not hand them to another worker
+  const heartbeat = setInterval(() => {
+    pool.query(`UPDATE jobs SET locked_at = NOW() WHERE id = $1 AND status = 'running'`, [job.id])
+      .catch(error => console.error(`Job ${job.id} heartbeat failed:`, error));
+  }, JOB_HEARTBEAT_INTERVAL_MS);
+  
+  try {
+    await handleJob(job);
+    
+    await pool.query(
+      `UPDATE jobs SET status = 'done', locked_at = NULL, last_error = NULL, updated_at = NOW() WHERE id = $1`,
+      [job.id]
+    );
+    
+    if (isPublishJob(job)) {
+      await completePublishIfDone(job.payload.postId, job.payload.userId);
+    }
+  } catch (error) {
+    console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+    
+    const isDead = job.attempts >= job.max_attempts;
+    const backoffSeconds = Math.min(30 * 2 ** (job.attempts - 1), JOB_MAX_BACKOFF_SECONDS);
+    
+    await pool.query(
+      `UPDATE jobs
+       SET status = $2, last_error = $3, locked_at = NULL, updated_at = NOW(),
+           run_at = NOW() + make_interval(secs => $4)
+       WHERE id = $1`,
+      [job.id, isDead ? 'dead' : 'queued', errorMessage(error), backoffSeconds]
+    );
+    
+    if (isDead && isPublishJob(job)) {
+      await failPost(job.payload.postId, job.payload.userId, errorMessage(error));
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Process due jobs one at a time until the bot shuts down
+async function runJobWorker() {
+  while (!jobWorkerStopped) {
+    try {
+      await releaseStaleJobs();
+      
+      const job = await claimNextJob();
+      if (job) {
+        await runJob(job);
+        continue;
+      }
+    } catch (error) {
+      console.error('Job worker error:', error);
+    }
+    
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+}
+
+// Queue an analyze job for every user with unprocessed messages, except users whose
+// last analyze job just died (otherwise a failing user would be retried on every poll)
+async function processMessages() {
+  try {
+    const users = await pool.query(
+      `SELECT DISTINCT ms.user_id FROM pending_messages pm
+       JOIN monitored_sources ms ON pm.source_id = ms.id
+       WHERE pm.is_processed = false
+         AND NOT EXISTS (
+           SELECT 1 FROM jobs j
+           WHERE j.dedupe_key = 'analyze:' || ms.user_id AND j.status = 'dead'
+             AND j.updated_at > NOW() - make_interval(mins => $1)
+         )`,
+      [ANALYZE_DEAD_COOLDOWN_MINUTES]
+    );
+    
+    for (const user of users.rows) {
+      await enqueueJob('analyze', { userId: user.user_id }, `analyze:${user.user_id}`);
+    }
+  } catch (error) {
+    console.error('Error processing messages:', error);
+  }
+}
+
+// Window limits: a window closes at this size even without a quiet gap, and messages the
+// model keeps leaving for later go to a post for manual review after MAX_MESSAGE_DEFERRALS analyses
+const WINDOW_MAX_MESSAGES = parseInt(process.env.WINDOW_MAX_MESSAGES || '50');
+const MAX_MESSAGE_DEFERRALS = 2;
+const MAX_WINDOWS_PER_RUN = 10;
+// Deferred messages from a source that went quiet are analyzed on their own after this long
+const DEFERRED_MAX_WAIT_MS = 24 * 60 * 60 * 1000;
+
+// Split one source's unprocessed messages (oldest first) into conversation windows.
+// Messages deferred by an earlier analysis join the next window rather than forming their own.
+function buildMessageWindows(
+  sourceId: number,
+  messages: PendingMessage[],
+  quietMinutes: number,
+  now = new Date()
+): MessageWindow[] {
+  const quietMs = quietMinutes * 60 * 1000;
+  const deferred = messages.filter(m => m.deferred_count > 0);
+  const windows: MessageWindow[] = [];
+  let current: PendingMessage[] = [];
+  
+  const close = (isClosed: boolean) => {
+    if (current.length > 0) windows.push({ sourceId, messages: current, isClosed });
+    current = [];
+  };
+  
+  for (const m of messages.filter(m => m.deferred_count === 0)) {
+    const last = current[current.length - 1];
+    if (last && m.timestamp.getTime() - last.timestamp.getTime() > quietMs) close(true);
+    
+    current.push(m);
+    if (current.length >= WINDOW_MAX_MESSAGES) close(true);
+  }
+  
+  const last = current[current.length - 1];
+  close(Boolean(last) && now.getTime() - last.timestamp.getTime() >= quietMs);
+  
+  if (deferred.length > 0 && windows.length > 0) {
+    windows[0].messages = [...deferred, ...windows[0].messages];
+  } else if (deferred.length > 0) {
+    const newest = deferred[deferred.length - 1].timestamp.getTime();
+    windows.push({ sourceId, messages: deferred, isClosed: now.getTime() - newest >= DEFERRED_MAX_WAIT_MS });
+  }
+  
+  return windows;
+}
+
+// Unprocessed messages with the combine time of their source's workspace
+type WindowedMessage = PendingMessage & { combine_threshold_minutes: number };
+
+// Group messages (oldest first) into each source's current windows, keyed by source id
+function groupMessageWindows(messages: WindowedMessage[]): Map<number, MessageWindow[]> {
+  const bySource = new Map<number, PendingMessage[]>();
+  const quietMinutes = new Map<number, number>();
+  for (const { combine_threshold_minutes, ...m } of messages) {
+    bySource.set(m.source_id, [...(bySource.get(m.source_id) || []), m]);
+    quietMinutes.set(m.source_id, combine_threshold_minutes);
+  }
+  
+  const windows = new Map<number, MessageWindow[]>();
+  for (const [sourceId, sourceMessages] of bySource) {
+    windows.set(sourceId, buildMessageWindows(sourceId, sourceMessages, quietMinutes.get(sourceId)!));
+  }
+  
+  return windows;
+}
+
+// Current windows of every source a user monitors, keyed by source id
+async function getUserWindows(userId: number): Promise<Map<number, MessageWindow[]>> {
+  const messages = await pool.query<WindowedMessage>(
+    `SELECT pm.*, w.combine_threshold_minutes FROM pending_messages pm
+     JOIN monitored_sources ms ON pm.source_id = ms.id
+     JOIN workspaces w ON w.id = ms.workspace_id
+     WHERE ms.user_id = $1 AND pm.is_processed = false
+     ORDER BY pm.timestamp ASC`,
+    [userId]
+  );
+  
+  return groupMessageWindows(messages.rows);
+}
+
+// Current windows of every source in a workspace, keyed by source id
+async function getWorkspaceWindows(workspaceId: number): Promise<Map<number, MessageWindow[]>> {
+  const messages = await pool.query<WindowedMessage>(
+    `SELECT pm.*, w.combine_threshold_minutes FROM pending_messages pm
+     JOIN monitored_sources ms ON pm.source_id = ms.id
+     JOIN workspaces w ON w.id = ms.workspace_id
+     WHERE ms.workspace_id = $1 AND pm.is_processed = false
+     ORDER BY pm.timestamp ASC`,
+    [workspaceId]
+  );
+  
+  return groupMessageWindows(messages.rows);
+}
+
+// Analyze every closed window of a user, oldest first, so stale backlogs get backfilled (analyze job)
+async function analyzeUserMessages(userId: number) {
+  const windows = await getUserWindows(userId);
+  
+  const closed = [...windows.values()]
+    .flat()
+    .filter(window => window.isClosed)
+    .sort((a, b) => a.messages[0].timestamp.getTime() - b.messages[0].timestamp.getTime())
+    .slice(0, MAX_WINDOWS_PER_RUN);
+  
+  for (const window of closed) {
+    await analyzeWindow(userId, window.messages);
+  }
+}
+
+// Turn each topic found in one window into a post
+async function analyzeWindow(userId: number, windowMessages: PendingMessage[]) {
+  // A window holds one source's messages; its posts belong to that source's workspace,
+  // whose settings pick the AI provider and whether they are published without review
+  const source = await pool.query('SELECT workspace_id FROM monitored_sources WHERE id = $1', [windowMessages[0].source_id]);
+  const workspaceId: number = source.rows[0].workspace_id;
+  const settings = await getWorkspace(workspaceId);
+  
+  // Transcripts count towards the budget, so they are needed before the batch is cut;
+  // a window with a transcription waiting to be retried is left for a later run
+  if (!await transcribeMessages(windowMessages)) return;
+  
+  // So do image text and linked sources; whatever does not fit the model's budget stays
+  // unprocessed for the next run
+  const provider = getLLMProvider(settings);
+  const images = await describeImages(windowMessages.flatMap(m => m.media_urls || []), provider);
+  const sources = await enrichMessages(windowMessages, provider);
+  const batch = fitMessagesToBudget(windowMessages, images, sources);
+  
+  const analysis = await analyzeMessages(batch, provider, userId, await getTaxonomy(workspaceId), images, sources);
+  const clusterHash = (cluster: TopicCluster) => sourceTextHash(batch.filter(m => cluster.messageIds.includes(m.id)));
+  
+  // A repost within the batch (same source text as an earlier cluster) is folded into that cluster
+  const clusters: TopicCluster[] = [];
+  const hashes: string[] = [];
+  for (const cluster of analysis.clusters) {
+    const hash = clusterHash(cluster);
+    const first = hashes.indexOf(hash);
+    
+    if (first === -1) {
+      clusters.push(cluster);
+      hashes.push(hash);
+    } else {
+      clusters[first] = { ...clusters[first], messageIds: [...clusters[first].messageIds, ...cluster.messageIds] };
+    }
+  }
+  const publishableCount = clusters.length;
+  
+  // Messages the model has left out too often become a post for manual review instead of being dropped
+  const handledIds = [
+    ...clusters.flatMap(cluster => cluster.messageIds),
+    ...analysis.discardedMessageIds
+  ];
+  const expired = batch.filter(m => !handledIds.includes(m.id) && m.deferred_count + 1 >= MAX_MESSAGE_DEFERRALS);
+  if (expired.length > 0) {
+    const cluster = needsReviewCluster(expired);
+    clusters.push(cluster);
+    hashes.push(clusterHash(cluster));
+    handledIds.push(...cluster.messageIds);
+  }
+  
+  // Reposts of earlier posts are matched before anything is written
+  const duplicates: (DuplicateMatch | null)[] = [];
+  for (const [index, cluster] of clusters.entries()) {
+    duplicates.push(await findDuplicate(workspaceId, hashes[index], cluster, provider));
+  }
+  
+  const postIds: number[] = [];
+  const client = await pool.connect();
+  
+  try {
+    await client.query('BEGIN');
+    
+    for (const [index, cluster] of clusters.entries()) {
+      const clusterMessages = batch.filter(m => cluster.messageIds.includes(m.id));
+      const duplicate = duplicates[index];
+      const clusterMedia = clusterMessages.flatMap(m => m.media_urls || []);
+      const mediaText = images
+        .filter(image => clusterMedia.includes(image.url) && image.ocr_text)
+        .map(image => image.ocr_text)
+        .join('\n\n');
+      const postSources: PostSource[] = [
+        ...new Map(clusterMessages
+          .flatMap(m => sources.get(m.id) || [])
+          .map(source => [source.url, { title: source.title || source.url, url: source.url }])
+        ).values()
+      ];
+      
+      const postResult = await client.query(
+        `INSERT INTO blog_posts (user_id, title, content, media_urls, source_messages, source_id, category, tags, analysis_id, media_text, sources,
+                                 content_hash, duplicate_of, duplicate_similarity, merge_content, merge_base_hash, workspace_id, status)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, 'pending')
+         RETURNING id`,
+        [
+          userId,
+          cluster.title,
+          cluster.content,
+          clusterMedia,
+          cluster.messageIds,
+          getPrimarySourceId(clusterMessages),
+          cluster.category || null,
+          cluster.tags,
+          analysis.analysisId,
+          mediaText || null,
+          JSON.stringify(postSources),
+          hashes[index],
+          duplicate?.post.id ?? null,
+          duplicate?.similarity ?? null,
+          duplicate?.mergeContent ?? null,
+          duplicate?.mergeBaseHash ?? null,
+          workspaceId
+        ]
+      );
+      postIds.push(postResult.rows[0].id);
+    }
+    
+    await client.query(
+      'UPDATE pending_messages SET is_processed = true WHERE id = ANY($1)',
+      [handledIds]
+    );
+    
+    // Messages in no cluster and not discarded wait for the next window
+    await client.query(
+      'UPDATE pending_messages SET deferred_count = deferred_count + 1 WHERE id = ANY($1)',
+      [batch.map(m => m.id).filter(id => !handledIds.includes(id))]
+    );
+    
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+  
+  for (const [index, postId] of postIds.entries()) {
+    await logPostEvent(postId, null, 'created', duplicates[index] ? { duplicateOf: duplicates[index]!.post.id } : {});
+  }
+  
+  // Possible duplicates are offered as a merge instead of being published as new posts
+  for (const [index, postId] of postIds.entries()) {
+    if (duplicates[index]) await sendDuplicateReview(postId);
+  }
+  
+  // Fallback posts (and the post of expired deferrals) always wait for a human, even with auto-publish on
+  if (!analysis.isFallback && await shouldAutoPublish(settings, workspaceId)) {
+    for (const [index, postId] of postIds.entries()) {
+      if (!duplicates[index] && index < publishableCount) await releasePost(postId, userId);
+    }
+  }
+}
+
+// Duplicate detection
+const DUPLICATE_LOOKBACK_DAYS = parseInt(process.env.DUPLICATE_LOOKBACK_DAYS || '30');
+const DUPLICATE_MIN_SIMILARITY = parseFloat(process.env.DUPLICATE_MIN_SIMILARITY || '0.9');
+const DIFF_MAX_CHARS = 2500;
+
+// Hash of a cluster's source text, insensitive to case, punctuation and spacing
+function sourceTextHash(messages: PendingMessage[]): string {
+  const normalized = messages
+    .map(m => [m.text, m.transcript].filter(Boolean).join(' '))
+    .join(' ')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+  
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+// The workspace's most similar recent post: same source text first, then the nearest embedding
+async function findDuplicate(
+  workspaceId: number,
+  hash: string,
+  cluster: TopicCluster,
+  provider: LLMProvider
+): Promise<DuplicateMatch | null> {
+  let match: { post: BlogPost; similarity: number } | null = null;
+  
+  const sameText = await pool.query<BlogPost>(
+    `SELECT * FROM blog_posts
+     WHERE workspace_id = $1 AND content_hash = $2 AND duplicate_of IS NULL AND status <> 'rejected'
+       AND created_at > NOW() - make_interval(days => $3)
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [workspaceId, hash, DUPLICATE_LOOKBACK_DAYS]
+  );
+  if (sameText.rows.length > 0) match = { post: sameText.rows[0], similarity: 1 };
+  
+  if (!match && embedder) {
+    try {
+      const embedding = await embedder.embed(`${cluster.title}\n\n${cluster.content}`.slice(0, AI_MAX_INPUT_TOKENS * CHARS_PER_TOKEN));
+      const nearest = await pool.query<BlogPost & { similarity: number }>(
+        `SELECT bp.*, 1 - (pe.embedding <=> $2::vector) AS similarity
+         FROM post_embeddings pe
+         JOIN blog_posts bp ON bp.id = pe.post_id
+         WHERE bp.workspace_id = $1 AND pe.model = $3 AND bp.status <> 'rejected'
+           AND bp.created_at > NOW() - make_interval(days => $4)
+         ORDER BY pe.embedding <=> $2::vector
+         LIMIT 1`,
+        [workspaceId, toVectorLiteral(embedding), embedder.model, DUPLICATE_LOOKBACK_DAYS]
+      );
+      
+      const nearestPost = nearest.rows[0];
+      if (nearestPost && nearestPost.similarity >= DUPLICATE_MIN_SIMILARITY) {
+        const { similarity, ...post } = nearestPost;
+        match = { post, similarity };
+      }
+    } catch (error) {
+      console.error('Error comparing post embeddings:', error);
+    }
+  }
+  
+  if (!match) return null;
+  
+  return {
+    ...match,
+    mergeContent: await mergePostContent(match.post, cluster, provider),
+    mergeBaseHash: contentHash(match.post.content)
+  };
+}
+
+// Matches Postgres' md5(content), so a post's current content can be compared in SQL
+function contentHash(content: string): string {
+  return crypto.createHash('md5').update(content).digest('hex');
+}
+
+// The existing post's content rewritten to include whatever the new post adds
+async function mergePostContent(
+  existing: BlogPost,
+  cluster: Pick<TopicCluster, 'title' | 'content'>,
+  provider: LLMProvider
+): Promise<string> {
+  const merged = await provider.generateText(`An existing wiki post and a newer post about the same topic follow.
+Rewrite the existing post's markdown content so it also covers any new information from the newer post (updated dates, numbers, links, details).
+Keep the existing structure and wording wherever it is still accurate. If the newer post adds nothing, return the existing content unchanged.
+Return only the markdown content, without the title.
+
+Existing post "${existing.title}":
+${existing.content}
+
+Newer post "${cluster.title}":
+${cluster.content}`);
+  
+  return merged.trim().replace(/^```(?:markdown)?\n([\s\S]*)\n```$/, '$1') || existing.content;
+}
+
+// Line diff in unified style, with unchanged runs collapsed to one line of context
+function diffLines(before: string, after: string): string {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  
+  const lines: { op: ' ' | '-' | '+'; text: string }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ op: ' ', text: a[i++] });
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ op: '-', text: a[i++] });
+    } else {
+      lines.push({ op: '+', text: b[j++] });
+    }
+  }
+  
+  const isNearChange = (index: number) =>
+    lines[index].op !== ' ' || lines[index - 1]?.op.trim() || lines[index + 1]?.op.trim();
+  
+  const output: string[] = [];
+  lines.forEach((line, index) => {
+    if (isNearChange(index)) {
+      output.push(`${line.op} ${line.text}`);
+    } else if (output[output.length - 1] !== '…') {
+      output.push('…');
+    }
+  });
+  
+  return output.join('\n');
+}
+
+// Review message for a possible duplicate: the match, the proposed update as a diff, and the choices
+async function sendDuplicateReview(postId: number) {
+  const result = await pool.query<BlogPost & { existing_title: string; existing_content: string; existing_status: string }>(
+    `SELECT bp.*, e.title AS existing_title, e.content AS existing_content, e.status AS existing_status
+     FROM blog_posts bp
+     JOIN blog_posts e ON e.id = bp.duplicate_of
+     WHERE bp.id = $1`,
+    [postId]
+  );
+  if (result.rows.length === 0) return;
+  
+  const post = result.rows[0];
+  let diff = post.merge_content && post.merge_content !== post.existing_content
+    ? diffLines(post.existing_content, post.merge_content).replace(/```/g, "'''")
+    : '';
+  if (diff.length > DIFF_MAX_CHARS) diff = `${diff.slice(0, DIFF_MAX_CHARS)}\n…`;
+  
+  const similarity = post.duplicate_similarity === 1
+    ? 'same source text'
+    : `${Math.round((post.duplicate_similarity || 0) * 100)}% similar`;
+  
+  await bot.telegram.sendMessage(
+    post.user_id,
+    `♻️ *Possible duplicate* (${similarity})\n\n` +
+    `New: *${post.title}*\n` +
+    `Existing: *${post.existing_title}* (#${post.duplicate_of}, ${post.existing_status})\n\n` +
+    (diff ? `Proposed update to the existing post:\n\`\`\`\n${diff}\n\`\`\`` : 'The new post adds nothing to the existing one.'),
+    {
+      parse_mode: 'Markdown',
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback('🔀 Merge into existing', `merge_${postId}`)],
+        [
+          Markup.button.callback('➕ Keep as new post', `keep_${postId}`),
+          Markup.button.callback('❌ Discard', `reject_${postId}`)
+        ]
+      ])
+    }
+  );
+}
+
+// Snapshot the current title/content/media of a post, unless unchanged since the last revision
+async function saveRevision(postId: number, userId?: number): Promise<number | null> {
+  const result = await pool.query(
+    `INSERT INTO blog_post_revisions (post_id, revision, title, content, media_urls, created_by)
+     SELECT bp.id,
+            COALESCE((SELECT MAX(revision) FROM blog_post_revisions WHERE post_id = bp.id), 0) + 1,
+            bp.title, bp.content, bp.media_urls, $2
+     FROM blog_posts bp
+     WHERE bp.id = $1 AND NOT EXISTS (
+       SELECT 1 FROM blog_post_revisions r
+       WHERE r.post_id = bp.id
+         AND r.revision = (SELECT MAX(revision) FROM blog_post_revisions WHERE post_id = bp.id)
+         AND r.title IS NOT DISTINCT FROM bp.title
+         AND r.content IS NOT DISTINCT FROM bp.content
+         AND r.media_urls IS NOT DISTINCT FROM bp.media_urls
+     )
+     RETURNING revision`,
+    [postId, userId ?? null]
+  );
+  
+  return result.rows.length > 0 ? result.rows[0].revision : null;
+}
+
+// Queue one Notion and/or GitHub job per destination of a post
+async function publishPost(postId: number, userId: number) {
+  const post = await pool.query<BlogPost>(
+    `UPDATE blog_posts SET status = 'publishing', updated_at = NOW()
+     WHERE id = $1 AND status NOT IN ('publishing', 'rejected')
+     RETURNING *`,
+    [postId]
+  );
+  
+  if (post.rows.length === 0) return;
+  
+  await logPostEvent(postId, null, 'publishing');
+  
+  // Dead jobs from an earlier attempt must not block this one from completing
+  await pool.query(
+    `UPDATE jobs SET status = 'discarded', updated_at = NOW()
+     WHERE status = 'dead' AND type IN ('publish_notion', 'publish_github')
+       AND (payload->>'postId')::int = $1`,
+    [postId]
+  );
+  
+  const destinations = await resolveDestinations(post.rows[0]);
+  
+  // A digest that only goes to its chat is published without any jobs
+  if (destinations.length === 0 && post.rows[0].digest_id) {
+    const digest = await pool.query('SELECT chat_id FROM digests WHERE id = $1', [post.rows[0].digest_id]);
+    if (digest.rows[0]?.chat_id) {
+      await completePublishIfDone(postId, userId);
+      return;
+    }
+  }
+  
+  if (destinations.length === 0) {
+    await failPost(postId, userId, 'No Notion database or GitHub repo configured');
+    return;
+  }
+  
+  for (const destination of destinations) {
+    const payload = { postId, userId, destination };
+    
+    if (destination.notion_database_id) {
+      await enqueueJob('publish_notion', payload, `publish_notion:${postId}:${destination.key}`);
+    }
+    if (destination.github_repo) {
+      await enqueueJob('publish_github', payload, `publish_github:${postId}:${destination.key}`);
+    }
+  }
+}
+
+// Publish a post to one side of one destination (publish_notion / publish_github jobs)
+async function runPublishJob(
+  target: 'notion' | 'github',
+  payload: { postId: number; destination: ResolvedDestination }
+) {
+  const { postId, destination } = payload;
+  
+  const post = await pool.query<BlogPost>(
+    'SELECT * FROM blog_posts WHERE id = $1',
+    [postId]
+  );
+  
+  if (post.rows.length === 0) return;
+  
+  const postData = post.rows[0];
+  const content = withSourcesSection(postData.content, postData.sources || []);
+  const labels: PostLabels = { category: postData.category, tags: postData.tags || [] };
+  
+  const existing = await pool.query<PostPublication>(
+    'SELECT * FROM post_publications WHERE post_id = $1 AND destination_key = $2',
+    [postId, destination.key]
+  );
+  const previous = existing.rows[0];
+  
+  if (target === 'notion') {
+    const notionPageId = await publishToNotion(
+      destination.notion_database_id!,
+      postData.title,
+      content,
+      postData.media_urls || [],
+      labels,
+      previous?.notion_page_id
+    );
+    
+    await pool.query(
+      `INSERT INTO post_publications (post_id, destination_key, notion_page_id)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (post_id, destination_key) DO UPDATE
+       SET notion_page_id = EXCLUDED.notion_page_id, published_at = NOW()`,
+      [postId, destination.key, notionPageId]
+    );
+  } else {
+    const commit = await publishToGitHub(
+      {
+        repo: destination.github_repo!,
+        branch: destination.github_branch,
+        folder: destination.github_folder
+      },
+      postData.title,
+      content,
+      postData.media_urls || [],
+      labels,
+      previous?.github_path,
+      postData.published_at
+    );
+    
+    await pool.query(
+      `INSERT INTO post_publications (post_id, destination_key, github_path, github_commit_sha)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (post_id, destination_key) DO UPDATE
+       SET github_path = EXCLUDED.github_path, github_commit_sha = EXCLUDED.github_commit_sha, published_at = NOW()`,
+      [postId, destination.key, commit.path, commit.sha]
+    );
+  }
+}
+
+// Once no publish jobs for a post are outstanding, mark it published and notify
+async function completePublishIfDone(postId: number, userId: number) {
+  const outstanding = await pool.query(
+    `SELECT COUNT(*) FILTER (WHERE status IN ('queued', 'running')) AS pending,
+            COUNT(*) FILTER (WHERE status = 'dead') AS dead
+     FROM jobs
+     WHERE type IN ('publish_notion', 'publish_github') AND (payload->>'postId')::int = $1`,
+    [postId]
+  );
+  
+  if (outstanding.rows[0].pending !== '0' || outstanding.rows[0].dead !== '0') return;
+  
+  const publications = await pool.query(
+    `SELECT pp.*, COALESCE(d.name, 'Default') AS destination_name
+     FROM post_publications pp
+     LEFT JOIN publish_destinations d ON pp.destination_key = 'destination:' || d.id
+     WHERE pp.post_id = $1
+     ORDER BY pp.published_at ASC`,
+    [postId]
+  );
+  
+  const before = await pool.query<BlogPost>('SELECT * FROM blog_posts WHERE id = $1', [postId]);
+  const isUpdate = Boolean(before.rows[0]?.published_at);
+  
+  // blog_posts keeps the first destination's ids for quick lookups
+  const primary = publications.rows[0];
+  
+  const result = await pool.query<BlogPost>(
+    `UPDATE blog_posts
+     SET status = 'published', notion_page_id = $1, github_commit_sha = $2, github_path = $3,
+         published_at = COALESCE(published_at, NOW())
+     WHERE id = $4 AND status = 'publishing'
+     RETURNING *`,
+    [primary?.notion_page_id, primary?.github_commit_sha, primary?.github_path, postId]
+  );
+  
+  // Another job finished the post first
+  if (result.rows.length === 0) return;
+  
+  const postData = result.rows[0];
+  
+  await logPostEvent(postId, null, isUpdate ? 'updated' : 'published', {
+    destinations: publications.rows.map(publication => publication.destination_name)
+  });
+  await saveRevision(postId, userId);
+  
+  if (postData.digest_id && !isUpdate) {
+    await sendDigestToChat(postData);
+  }
+  
+  if (embedder) {
+    await enqueueJob('embed_post', { postId }, `embed_post:${postId}`);
+  }
+  
+  const report = publications.rows.map(publication =>
+    `*${publication.destination_name}*: ` +
+    [publication.notion_page_id && '📝 Notion', publication.github_commit_sha && '🔗 GitHub']
+      .filter(Boolean)
+      .join(', ')
+  );
+  
+  await bot.telegram.sendMessage(
+    userId,
+    `✅ ${isUpdate ? 'Updated' : 'Published'}: *${postData.title}*\n\n` +
+    report.join('\n'),
+    { parse_mode: 'Markdown' }
+  );
+}
+
+// Mark a post as failed and tell its owner, with a button to retry
+async function failPost(postId: number, userId: number, reason: string) {
+  const result = await pool.query<BlogPost>(
+    `UPDATE blog_posts SET status = 'failed', updated_at = NOW() WHERE id = $1 RETURNING *`,
+    [postId]
+  );
+  
+  if (result.rows.length === 0) return;
+  
+  await logPostEvent(postId, null, 'failed', { reason });
+  
+  await bot.telegram.sendMessage(
+    userId,
+    `⚠️ Publishing failed: ${result.rows[0].title}\n\n${reason}`,
+    Markup.inlineKeyboard([[Markup.button.callback('🔁 Retry', `retry_${postId}`)]])
+  );
+}
+
+// Re-queue a failed post's dead jobs, or publish it afresh if there are none
+async function retryPost(postId: number, userId: number): Promise<boolean> {
+  const post = await pool.query<BlogPost>(
+    'SELECT * FROM blog_posts WHERE id = $1',
+    [postId]
+  );
+  
+  if (post.rows.length === 0 || post.rows[0].status !== 'failed') return false;
+  
+  await logPostEvent(postId, userId, 'retried');
+  
+  const revived = await pool.query(
+    `UPDATE jobs SET status = 'queued', attempts = 0, run_at = NOW(), updated_at = NOW()
+     WHERE status = 'dead' AND type IN ('publish_notion', 'publish_github')
+       AND (payload->>'postId')::int = $1`,
+    [postId]
+  );
+  
+  if (revived.rowCount === 0) {
+    await publishPost(postId, userId);
+    return true;
+  }
+  
+  await pool.query(
+    `UPDATE blog_posts SET status = 'publishing', updated_at = NOW() WHERE id = $1`,
+    [postId]
+  );
+  
+  return true;
+}
+
+// Audit trail
+async function logPostEvent(postId: number, actorId: number | null, action: string, details: Record<string, unknown> = {}) {
+  await pool.query(
+    `INSERT INTO audit_log (post_id, workspace_id, actor_id, action, status, details)
+     VALUES ($1, (SELECT workspace_id FROM blog_posts WHERE id = $1), $2, $3,
+             (SELECT status FROM blog_posts WHERE id = $1), $4)`,
+    [postId, actorId, action, JSON.stringify(details)]
+  );
+}
+
+const AUDIT_LABELS: Record<string, string> = {
+  created: '🆕 Created',
+  approved: '👍 Approved',
+  objected: '👎 Objection',
+  rejected: '❌ Rejected',
+  publishing: '📤 Publishing',
+  published: '✅ Published',
+  updated: '🔄 Updated',
+  failed: '⚠️ Failed',
+  retried: '🔁 Retried',
+  merged: '🔀 Merged',
+  kept: '➕ Kept as a new post',
+  edited: '✏️ Edited',
+  rolled_back: '↩️ Rolled back',
+  scheduled: '🗓 Scheduled',
+  unscheduled: '✖️ Unscheduled'
+};
+
+function formatAuditEntry(entry: AuditEntry & { username?: string }): string {
+  const { details } = entry;
+  let line = `${entry.created_at.toISOString().replace('T', ' ').slice(0, 16)} ${AUDIT_LABELS[entry.action] || entry.action}`;
+  
+  if (entry.actor_id) line += ` by @${entry.username || entry.actor_id}`;
+  if (typeof details.approvals === 'number') line += ` (${details.approvals}/${Number(details.required) || 1})`;
+  if (typeof details.into === 'number') line += ` into #${details.into}`;
+  if (typeof details.from === 'number') line += ` from #${details.from}`;
+  if (typeof details.duplicateOf === 'number') line += ` as a possible duplicate of #${details.duplicateOf}`;
+  if (typeof details.revision === 'number') line += ` to r${details.revision}`;
+  if (typeof details.at === 'string') line += ` for ${details.at}`;
+  if (typeof details.digest === 'string') line += ` by digest "${details.digest}"`;
+  if (Array.isArray(details.destinations) && details.destinations.length > 0) line += ` to ${details.destinations.join(', ')}`;
+  if (typeof details.reason === 'string' && details.reason) line += `: ${details.reason}`;
+  
+  return line;
+}
+
+// Approval policy
+async function getApprovalPolicy(workspaceId: number): Promise<Pick<Workspace, 'required_approvals' | 'veto'>> {
+  const result = await pool.query(
+    'SELECT required_approvals, veto FROM workspaces WHERE id = $1',
+    [workspaceId]
+  );
+  return result.rows[0] ?? { required_approvals: 1, veto: 'any' };
+}
+
+// Auto-publish stands in for a single reviewer, so it is off in workspaces that need more approvals
+async function shouldAutoPublish(settings: WorkspaceSettings, workspaceId: number): Promise<boolean> {
+  if (!settings.auto_publish) return false;
+  
+  const policy = await getApprovalPolicy(workspaceId);
+  return policy.required_approvals <= 1;
+}
+
+// Count a reviewer's approval and release the post once the workspace's policy is met.
+// Returns null when the post is not awaiting review.
+async function approvePost(
+  postId: number,
+  userId: number
+): Promise<{ approvals: number; required: number; scheduledFor: string | null } | null> {
+  const post = await pool.query<BlogPost>('SELECT * FROM blog_posts WHERE id = $1', [postId]);
+  if (post.rows.length === 0 || post.rows[0].status !== 'pending') return null;
+  
+  const policy = await getApprovalPolicy(post.rows[0].workspace_id);
+  
+  await pool.query(
+    `INSERT INTO post_reviews (post_id, user_id, decision)
+     VALUES ($1, $2, 'approve')
+     ON CONFLICT (post_id, user_id) DO UPDATE SET decision = 'approve', reason = NULL, created_at = NOW()`,
+    [postId, userId]
+  );
+  
+  const reviews = await pool.query(
+    `SELECT COUNT(*) AS approvals FROM post_reviews WHERE post_id = $1 AND decision = 'approve'`,
+    [postId]
+  );
+  const approvals = Number(reviews.rows[0].approvals);
+  
+  await logPostEvent(postId, userId, 'approved', { approvals, required: policy.required_approvals });
+  
+  let scheduledFor: string | null = null;
+  if (approvals >= policy.required_approvals) {
+    await recordApproval(postId, userId);
+    scheduledFor = await releasePost(postId, userId);
+  }
+  
+  return { approvals, required: policy.required_approvals, scheduledFor };
+}
+
+// Reject a post, keeping it and the reason. Under an admin veto policy only admins and the
+// owner reject outright; anyone else's rejection is recorded as an objection.
+async function rejectPost(postId: number, userId: number, reason: string | null): Promise<'rejected' | 'objected' | null> {
+  const post = await pool.query<BlogPost>('SELECT * FROM blog_posts WHERE id = $1', [postId]);
+  if (post.rows.length === 0 || !['pending', 'failed'].includes(post.rows[0].status)) return null;
+  
+  const policy = await getApprovalPolicy(post.rows[0].workspace_id);
+  const role = await getUserRole(userId, post.rows[0].workspace_id);
+  
+  if (policy.veto === 'admin' && roleRank(role) < roleRank('admin')) {
+    await pool.query(
+      `INSERT INTO post_reviews (post_id, user_id, decision, reason)
+       VALUES ($1, $2, 'reject', $3)
+       ON CONFLICT (post_id, user_id) DO UPDATE SET decision = 'reject', reason = EXCLUDED.reason, created_at = NOW()`,
+      [postId, userId, reason]
+    );
+    await logPostEvent(postId, userId, 'objected', { reason });
+    return 'objected';
+  }
+  
+  const result = await pool.query(
+    `UPDATE blog_posts
+     SET status = 'rejected', rejected_by = $2, rejected_at = NOW(), rejection_reason = $3, updated_at = NOW()
+     WHERE id = $1 AND status IN ('pending', 'failed')`,
+    [postId, userId, reason]
+  );
+  if (result.rowCount === 0) return null;
+  
+  await logPostEvent(postId, userId, 'rejected', { reason });
+  return 'rejected';
+}
+
+// Publish action handlers
+bot.action(/publish_(\d+)/, requirePostPermission('review'), async (ctx) => {
+  const postId = parseInt(ctx.match![1]);
+  const result = await approvePost(postId, ctx.from!.id);
+  
+  if (!result) {
+    return ctx.answerCbQuery('❌ Post is not awaiting review');
+  }
+  
+  if (result.approvals < result.required) {
+    return ctx.answerCbQuery(`👍 Approval recorded (${result.approvals}/${result.required})`);
+  }
+  
+  await ctx.answerCbQuery(result.scheduledFor ? `🗓 Scheduled for ${result.scheduledFor}` : '✅ Publishing post...');
+  await ctx.deleteMessage();
+});
+
+bot.action(/retry_(\d+)/, requirePostPermission('review'), async (ctx) => {
+  const postId = parseInt(ctx.match![1]);
+  
+  if (!await retryPost(postId, ctx.from!.id)) {
+    return ctx.answerCbQuery('❌ Post is not in a failed state');
+  }
+  
+  await ctx.answerCbQuery('🔁 Retrying...');
+  await ctx.editMessageReplyMarkup(undefined);
+});
+
+bot.command('retry', requirePermission('view'), requirePostPermission('review'), async (ctx) => {
+  const postId = ctx.message.text.split(' ')[1];
+  if (!isId(postId)) {
+    return ctx.reply('Usage: /retry <post_id>');
+  }
+  
+  if (!await retryPost(parseInt(postId), ctx.from.id)) {
+    return ctx.reply('❌ Post not found or not in a failed state.');
+  }
+  
+  await ctx.reply('🔁 Post queued for publishing again.');
+});
+
+// Fold a duplicate into the post it repeats; published posts are updated in place
+bot.action(/merge_(\d+)/, requirePostPermission('review'), async (ctx) => {
+  const postId = parseInt(ctx.match![1]);
+  
+  const duplicate = await pool.query<BlogPost>(
+    `SELECT * FROM blog_posts WHERE id = $1 AND duplicate_of IS NOT NULL AND status = 'pending'`,
+    [postId]
+  );
+  if (duplicate.rows.length === 0) {
+    return ctx.answerCbQuery('❌ Post not found');
+  }
+  
+  const post = duplicate.rows[0];
+  
+  // The update only applies to the content it was written from; if the post was edited since,
+  // the merge is worked out again and sent for review instead
+  const merged = await pool.query<BlogPost>(
+    `UPDATE blog_posts e
+     SET content = COALESCE($2, e.content),
+         media_urls = ARRAY(SELECT DISTINCT unnest(COALESCE(e.media_urls, '{}') || $3::text[])),
+         source_messages = ARRAY(SELECT DISTINCT unnest(COALESCE(e.source_messages, '{}') || $4::int[])),
+         tags = ARRAY(SELECT DISTINCT unnest(COALESCE(e.tags, '{}') || $5::text[])),
+         sources = COALESCE(e.sources, '[]'::jsonb) || (
+           SELECT COALESCE(jsonb_agg(s), '[]'::jsonb) FROM jsonb_array_elements($6::jsonb) s
+           WHERE NOT COALESCE(e.sources, '[]'::jsonb) @> jsonb_build_array(s)
+         ),
+         updated_at = NOW()
+     WHERE e.id = $1 AND md5(e.content) = $7
+     RETURNING *`,
+    [
+      post.duplicate_of,
+      post.merge_content,
+      post.media_urls || [],
+      post.source_messages || [],
+      post.tags || [],
+      JSON.stringify(post.sources || []),
+      post.merge_base_hash
+    ]
+  );
+  
+  const existing = merged.rows[0];
+  
+  if (!existing) {
+    const current = await pool.query<BlogPost>('SELECT * FROM blog_posts WHERE id = $1', [post.duplicate_of]);
+    if (current.rows.length === 0) {
+      return ctx.answerCbQuery('❌ The original post no longer exists; keep this one instead');
+    }
+    
+    await ctx.answerCbQuery('⚠️ The original post changed; check the updated merge');
+    await ctx.editMessageReplyMarkup(undefined);
+    
+    const settings = await getWorkspace(post.workspace_id);
+    await pool.query(
+      'UPDATE blog_posts SET merge_content = $2, merge_base_hash = $3 WHERE id = $1',
+      [
+        postId,
+        await mergePostContent(current.rows[0], post, getLLMProvider(settings)),
+        contentHash(current.rows[0].content)
+      ]
+    );
+    return sendDuplicateReview(postId);
+  }
+  
+  await logPostEvent(postId, ctx.from!.id, 'merged', { into: post.duplicate_of });
+  await pool.query('DELETE FROM blog_posts WHERE id = $1', [postId]);
+  await ctx.answerCbQuery('🔀 Merged');
+  await ctx.editMessageReplyMarkup(undefined);
+  
+  await logPostEvent(existing.id, ctx.from!.id, 'merged', { from: postId });
+  await recordApproval(existing.id, ctx.from!.id);
+  
+  if (existing.status === 'published' || existing.status === 'failed') {
+    await publishPost(existing.id, ctx.from!.id);
+  } else {
+    await saveRevision(existing.id, ctx.from!.id);
+    await ctx.reply(`🔀 Merged into ${boldMarkdown(existing.title)}.`, { parse_mode: 'Markdown' });
+  }
+});
+
+// Treat a suspected duplicate as a post in its own right
+bot.action(/keep_(\d+)/, requirePostPermission('review'), async (ctx) => {
+  const postId = parseInt(ctx.match![1]);
+  
+  const result = await pool.query<BlogPost>(
+    `UPDATE blog_posts SET duplicate_of = NULL, merge_content = NULL, merge_base_hash = NULL, updated_at = NOW()
+     WHERE id = $1 AND duplicate_of IS NOT NULL AND status = 'pending'
+     RETURNING *`,
+    [postId]
+  );
+  if (result.rows.length === 0) {
+    return ctx.answerCbQuery('❌ Post not found');
+  }
+  
+  await logPostEvent(postId, ctx.from!.id, 'kept');
+  
+  await ctx.answerCbQuery('➕ Kept as a new post');
+  await ctx.editMessageReplyMarkup(undefined);
+  
+  const settings = await getWorkspace(result.rows[0].workspace_id);
+  if (await shouldAutoPublish(settings, result.rows[0].workspace_id)) {
+    await recordApproval(postId, ctx.from!.id);
+    await releasePost(postId, ctx.from!.id);
+  } else {
+    await ctx.reply(`📝 *${result.rows[0].title}* is waiting for review.`, {
+      parse_mode: 'Markdown',
+      ...getPendingPostKeyboard(postId)
+    });
+  }
+});
+
+// Rejecting asks for a reason first
+const rejectScene = new Scenes.BaseScene<BotContext>('reject_reason');
+
+rejectScene.enter(async (ctx) => {
+  const { postId, reviewMessage } = ctx.scene.state as Pick<BotSceneSession, 'postId' | 'reviewMessage'>;
+  ctx.scene.session.postId = postId;
+  ctx.scene.session.reviewMessage = reviewMessage;
+  
+  await ctx.reply('❌ Why is this post being rejected? Send a reason, /skip to reject without one, or /cancel.');
+});
+
+rejectScene.command('cancel', async (ctx) => {
+  await ctx.scene.leave();
+  await ctx.reply('✖️ The post was not rejected.');
+});
+
+async function finishRejection(ctx: BotContext, reason: string | null) {
+  const { postId, reviewMessage } = ctx.scene.session;
+  await ctx.scene.leave();
+  
+  const outcome = await rejectPost(postId!, ctx.from!.id, reason);
+  
+  if (reviewMessage) {
+    await ctx.telegram.editMessageReplyMarkup(reviewMessage.chatId, reviewMessage.messageId, undefined, undefined)
+      .catch(error => console.error('Error removing review buttons:', error));
+  }
+  
+  if (outcome === 'objected') {
+    await ctx.reply('👎 Objection recorded. In this workspace only an admin can reject a post.');
+  } else if (outcome === 'rejected') {
+    await ctx.reply(`❌ Post rejected. See /history ${postId} for its trail.`);
+  } else {
+    await ctx.reply('❌ Post is no longer awaiting review.');
+  }
+}
+
+rejectScene.command('skip', (ctx) => finishRejection(ctx, null));
+
+// Other commands and menu buttons are not taken for a reason
+rejectScene.on(message('text'), async (ctx) => {
+  const text = ctx.message.text.trim();
+  
+  if (text.startsWith('/') || MAIN_MENU_BUTTONS.flat().includes(text)) {
+    return ctx.reply('❌ Still waiting for a reason. Send one, /skip to reject without one, or /cancel.');
+  }
+  
+  await finishRejection(ctx, text.slice(0, 1000));
+});
+
+stage.register(rejectScene);
+
+// The review buttons stay until the rejection goes through, so a cancelled one can be decided again
+bot.action(/reject_(\d+)/, requirePostPermission('review'), async (ctx) => {
+  await ctx.answerCbQuery();
+  
+  const message = ctx.callbackQuery.message;
+  await ctx.scene.enter('reject_reason', {
+    postId: parseInt(ctx.match![1]),
+    reviewMessage: message ? { chatId: message.chat.id, messageId: message.message_id } : undefined
+  });
+});
+
+// Not behind requirePostPermission: merged duplicates no longer exist but keep their trail
+bot.command('history', requirePermission('view'), async (ctx) => {
+  const postId = ctx.message.text.split(' ')[1];
+  if (!isId(postId)) {
+    return ctx.reply('Usage: /history <post_id>');
+  }
+  
+  const post = await pool.query<BlogPost>('SELECT * FROM blog_posts WHERE id = $1', [parseInt(postId)]);
+  if (post.rows.length > 0 && !await canAccessPost(ctx.from.id, ctx.access, post.rows[0], 'view')) {
+    return denyAccess(ctx);
+  }
+  
+  // The trail of a post that no longer exists (a merged duplicate) is shown within its workspace only
+  const entries = await pool.query<AuditEntry & { username?: string }>(
+    `SELECT a.*, u.username
+     FROM audit_log a
+     LEFT JOIN users u ON u.user_id = a.actor_id
+     WHERE a.post_id = $1 AND (a.workspace_id = $2 OR EXISTS (SELECT 1 FROM blog_posts WHERE id = $1))
+     ORDER BY a.created_at ASC, a.id ASC`,
+    [parseInt(postId), ctx.access.workspaceId]
+  );
+  
+  if (entries.rows.length === 0) {
+    return ctx.reply('📭 No history recorded for this post.');
+  }
+  
+  const title = post.rows[0]?.title ?? `post #${postId} (no longer exists)`;
+  
+  // Plain text: reasons and titles are free-form and would break Markdown
+  await ctx.reply(`🕓 History of ${title}\n\n${entries.rows.map(formatAuditEntry).join('\n')}`);
+});
+
+// Scheduling
+const SCHEDULE_TIME_FORMAT = 'Dy DD Mon YYYY HH24:MI';
+// How far ahead to look for a free publishing slot
+const SCHEDULE_HORIZON_DAYS = 60;
+const WEEKDAY_NAMES = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+const DAY_PRESETS: Record<string, number[]> = {
+  daily: [1, 2, 3, 4, 5, 6, 7],
+  weekdays: [1, 2, 3, 4, 5],
+  weekends: [6, 7]
+};
+
+function validateTimezone(input: string): string {
+  const timezone = input.trim();
+  
+  try {
+    new Intl.DateTimeFormat('en', { timeZone: timezone });
+  } catch {
+    throw new Error('Unknown timezone. Use an IANA name such as Europe/Berlin or America/New_York.');
+  }
+  
+  return timezone;
+}
+
+// "weekdays", "weekends", "daily" or a list like "mon,wed,fri"
+function parseSlotDays(input: string): number[] {
+  const preset = DAY_PRESETS[input.toLowerCase()];
+  if (preset) return preset;
+  
+  const days = input.toLowerCase().split(',').map(day => WEEKDAY_NAMES.indexOf(day.slice(0, 3)) + 1);
+  if (days.length === 0 || days.includes(0)) {
+    throw new Error('Days must be weekdays, weekends, daily or a list like mon,wed,fri.');
+  }
+  
+  return [...new Set(days)].sort();
+}
+
+function formatSlotDays(days: number[]): string {
+  const preset = Object.entries(DAY_PRESETS).find(([, presetDays]) => presetDays.join() === [...days].sort().join());
+  return preset ? preset[0] : days.map(day => WEEKDAY_NAMES[day - 1]).join(',');
+}
+
+// The earliest slot occurrence in the workspace's timezone that no other post is scheduled for
+async function getNextFreeSlot(workspaceId: number, db: pg.Pool | pg.PoolClient = pool): Promise<Date | null> {
+  const result = await db.query(
+    `SELECT c.at FROM (
+       SELECT (day::date + s.slot_time) AT TIME ZONE w.timezone AS at
+       FROM publish_slots s
+       JOIN workspaces w ON w.id = s.workspace_id,
+       generate_series((NOW() AT TIME ZONE w.timezone)::date, (NOW() AT TIME ZONE w.timezone)::date + $2::int, interval '1 day') day
+       WHERE s.workspace_id = $1 AND EXTRACT(ISODOW FROM day)::int = ANY(s.days)
+     ) c
+     WHERE c.at > NOW() AND NOT EXISTS (
+       SELECT 1 FROM blog_posts bp
+       WHERE bp.workspace_id = $1 AND bp.status = 'scheduled' AND bp.scheduled_at = c.at
+     )
+     ORDER BY c.at
+     LIMIT 1`,
+    [workspaceId, SCHEDULE_HORIZON_DAYS]
+  );
+  
+  return result.rows[0]?.at ?? null;
+}
+
+// "YYYY-MM-DD HH:MM" in the workspace's timezone, or "next" for its next free slot
+async function parseScheduleTime(input: string, workspaceId: number): Promise<Date> {
+  const text = input.trim().toLowerCase();
+  
+  if (text === 'next') {
+    const slot = await getNextFreeSlot(workspaceId);
+    if (!slot) throw new Error('No free publishing slot. Add slots with /addslot.');
+    return slot;
+  }
+  
+  if (!/^\d{4}-\d{2}-\d{2} \d{1,2}:\d{2}$/.test(text)) {
+    throw new Error('Send a time as YYYY-MM-DD HH:MM, or next for the next free slot.');
+  }
+  
+  const result = await pool.query(
+    'SELECT ($1::timestamp AT TIME ZONE timezone) AS at FROM workspaces WHERE id = $2',
+    [text, workspaceId]
+  );
+  const at: Date | undefined = result.rows[0]?.at;
+  
+  if (!at || at.getTime() <= Date.now()) {
+    throw new Error('That time is in the past.');
+  }
+  
+  return at;
+}
+
+// Send out an approved post: at the time asked for on it, else in the workspace's next free slot,
+// else right away. Returns the scheduled time in the workspace's timezone, or null if published now.
+async function releasePost(postId: number, userId: number): Promise<string | null> {
+  const post = await pool.query<BlogPost>('SELECT * FROM blog_posts WHERE id = $1', [postId]);
+  if (post.rows.length === 0) return null;
+  
+  const requested = post.rows[0].scheduled_at;
+  const client = await pool.connect();
+  let scheduled: pg.QueryResult | null = null;
+  
+  try {
+    await client.query('BEGIN');
+    
+    // Posts released at the same time take slots one after the other, so no slot is handed out twice
+    await client.query('SELECT id FROM workspaces WHERE id = $1 FOR UPDATE', [post.rows[0].workspace_id]);
+    
+    const at = requested && requested.getTime() > Date.now()
+      ? requested
+      : await getNextFreeSlot(post.rows[0].workspace_id, client);
+    
+    if (at) {
+      scheduled = await client.query(
+        `UPDATE blog_posts bp SET status = 'scheduled', scheduled_at = $2, updated_at = NOW()
+         FROM workspaces w
+         WHERE bp.id = $1 AND w.id = bp.workspace_id AND bp.status = 'pending'
+         RETURNING to_char(bp.scheduled_at AT TIME ZONE w.timezone, $3) AS local_time`,
+        [postId, at, SCHEDULE_TIME_FORMAT]
+      );
+    }
+    
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+  
+  if (!scheduled) {
+    await publishPost(postId, userId);
+    return null;
+  }
+  if (scheduled.rows.length === 0) return null;
+  
+  await logPostEvent(postId, userId, 'scheduled', { at: scheduled.rows[0].local_time });
+  return scheduled.rows[0].local_time;
+}
+
+// Set when a post goes out. A post still in review keeps the time until it is approved.
+async function schedulePost(postId: number, userId: number, at: Date): Promise<string | null> {
+  const result = await pool.query(
+    `UPDATE blog_posts bp SET scheduled_at = $2, updated_at = NOW()
+     FROM workspaces w
+     WHERE bp.id = $1 AND w.id = bp.workspace_id AND bp.status IN ('pending', 'scheduled')
+     RETURNING to_char(bp.scheduled_at AT TIME ZONE w.timezone, $3) AS local_time`,
+    [postId, at, SCHEDULE_TIME_FORMAT]
+  );
+  if (result.rows.length === 0) return null;
+  
+  await logPostEvent(postId, userId, 'scheduled', { at: result.rows[0].local_time });
+  return result.rows[0].local_time;
+}
+
+// Publish scheduled posts that are due. The schedule lives in blog_posts, so posts that fell
+// due while the bot was down go out on the first run after it starts.
+async function publishDuePosts() {
+  try {
+    const due = await pool.query<BlogPost>(
+      `SELECT * FROM blog_posts WHERE status = 'scheduled' AND scheduled_at <= NOW() ORDER BY scheduled_at`
+    );
+    
+    for (const post of due.rows) {
+      await publishPost(post.id, Number(post.approved_by ?? post.user_id));
+    }
+  } catch (error) {
+    console.error('Error publishing scheduled posts:', error);
+  }
+}
+
+function getScheduledPostKeyboard(post: BlogPost) {
+  const buttons = [Markup.button.callback('⏩ Reschedule', `reschedule_${post.id}`)];
+  if (post.status === 'scheduled') buttons.push(Markup.button.callback('🚀 Publish now', `publishnow_${post.id}`));
+  buttons.push(Markup.button.callback('✖️ Unschedule', `unschedule_${post.id}`));
+  
+  return Markup.inlineKeyboard([buttons]);
+}
+
+bot.command('schedule', requirePermission('view'), async (ctx) => {
+  const [, postId, ...when] = ctx.message.text.trim().split(/\s+/);
+  const workspaceId = ctx.access.workspaceId!;
+  
+  if (postId) {
+    if (!when.length) {
+      return ctx.reply('Usage: /schedule <post_id> <YYYY-MM-DD HH:MM|next>');
+    }
+    
+    const post = await pool.query<BlogPost>('SELECT * FROM blog_posts WHERE id = $1', [parseInt(postId)]);
+    if (post.rows.length === 0 || !await canAccessPost(ctx.from.id, ctx.access, post.rows[0], 'review')) {
+      return ctx.reply('❌ Post not found.');
+    }
+    
+    let localTime: string | null;
+    try {
+      localTime = await schedulePost(post.rows[0].id, ctx.from.id, await parseScheduleTime(when.join(' '), post.rows[0].workspace_id));
+    } catch (error) {
+      return ctx.reply(`❌ ${errorMessage(error)}`);
+    }
+    
+    if (!localTime) {
+      return ctx.reply('❌ Only posts awaiting review or already scheduled can be scheduled.');
+    }
+    
+    return ctx.reply(post.rows[0].status === 'pending'
+      ? `🗓 Will be published ${localTime} once approved.`
+      : `🗓 Rescheduled for ${localTime}.`);
+  }
+  
+  const posts = await pool.query<BlogPost & { local_time: string }>(
+    `SELECT bp.*, to_char(bp.scheduled_at AT TIME ZONE w.timezone, $2) AS local_time
+     FROM blog_posts bp
+     JOIN workspaces w ON w.id = bp.workspace_id
+     WHERE bp.workspace_id = $1 AND bp.scheduled_at IS NOT NULL AND bp.status IN ('pending', 'scheduled')
+     ORDER BY bp.scheduled_at ASC
+     LIMIT 20`,
+    [workspaceId, SCHEDULE_TIME_FORMAT]
+  );
+  const workspace = await pool.query<Workspace>('SELECT * FROM workspaces WHERE id = $1', [workspaceId]);
+  const slots = await pool.query<PublishSlot>('SELECT * FROM publish_slots WHERE workspace_id = $1 ORDER BY slot_time', [workspaceId]);
+  
+  let message = `🗓 *Content Calendar* (${workspace.rows[0]?.timezone ?? 'UTC'})\n\n`;
+  message += slots.rows.length > 0
+    ? `Slots: ${slots.rows.map(slot => `${formatSlotDays(slot.days)} ${slot.slot_time.slice(0, 5)}`).join('; ')}\n`
+    : 'No publishing slots; approved posts go out right away unless given a time.\n';
+  message += posts.rows.length > 0 ? `\n${posts.rows.length} upcoming post(s):` : '\n📭 Nothing scheduled.';
+  message += '\n\nUse /schedule <post_id> <YYYY-MM-DD HH:MM|next>, /slots and /timezone';
+  
+  await ctx.reply(message.replace(/_/g, '\\_'), { parse_mode: 'Markdown' });
+  
+  for (const post of posts.rows) {
+    await ctx.reply(
+      `🗓 *${post.local_time}*${post.status === 'pending' ? ' (awaiting approval)' : ''}\n${escapeMarkdown(post.title)}`,
+      { parse_mode: 'Markdown', ...getScheduledPostKeyboard(post) }
+    );
+  }
+});
+
+// Rescheduling asks for the new time
+const scheduleScene = new Scenes.BaseScene<BotContext>('schedule_time');
+
+scheduleScene.enter(async (ctx) => {
+  const { postId } = ctx.scene.state as { postId: number };
+  ctx.scene.session.postId = postId;
+  
+  await ctx.reply(
+    '⏩ When should this post go out? Send YYYY-MM-DD HH:MM in the workspace timezone, next for the next free slot, or /cancel.'
+  );
+});
+
+scheduleScene.command('cancel', async (ctx) => {
+  await ctx.scene.leave();
+  await ctx.reply('✖️ Schedule unchanged.');
+});
+
+scheduleScene.on(message('text'), async (ctx) => {
+  const postId = ctx.scene.session.postId!;
+  const post = await pool.query<BlogPost>('SELECT * FROM blog_posts WHERE id = $1', [postId]);
+  
+  let localTime: string | null = null;
+  try {
+    if (post.rows.length > 0) {
+      localTime = await schedulePost(postId, ctx.from.id, await parseScheduleTime(ctx.message.text, post.rows[0].workspace_id));
+    }
+  } catch (error) {
+    return ctx.reply(`❌ ${errorMessage(error)}\n\nTry again or send /cancel.`);
+  }
+  
+  await ctx.scene.leave();
+  await ctx.reply(localTime ? `🗓 Rescheduled for ${localTime}.` : '❌ Post is no longer scheduled.');
+});
+
+stage.register(scheduleScene);
+
+bot.action(/reschedule_(\d+)/, requirePostPermission('review'), async (ctx) => {
+  await ctx.answerCbQuery();
+  await ctx.scene.enter('schedule_time', { postId: parseInt(ctx.match![1]) });
+});
+
+bot.action(/publishnow_(\d+)/, requirePostPermission('review'), async (ctx) => {
+  const postId = parseInt(ctx.match![1]);
+  
+  const post = await pool.query<BlogPost>(`SELECT * FROM blog_posts WHERE id = $1 AND status = 'scheduled'`, [postId]);
+  if (post.rows.length === 0) {
+    return ctx.answerCbQuery('❌ Post is no longer scheduled');
+  }
+  
+  await publishPost(postId, ctx.from!.id);
+  await ctx.answerCbQuery('✅ Publishing post...');
+  await ctx.editMessageReplyMarkup(undefined);
+});
+
+// Unscheduled posts go back to the review queue
+bot.action(/unschedule_(\d+)/, requirePostPermission('review'), async (ctx) => {
+  const postId = parseInt(ctx.match![1]);
+  
+  const result = await pool.query(
+    `UPDATE blog_posts SET status = 'pending', scheduled_at = NULL, updated_at = NOW()
+     WHERE id = $1 AND status IN ('pending', 'scheduled') AND scheduled_at IS NOT NULL`,
+    [postId]
+  );
+  if (result.rowCount === 0) {
+    return ctx.answerCbQuery('❌ Post is no longer scheduled');
+  }
+  
+  await logPostEvent(postId, ctx.from!.id, 'unscheduled');
+  await ctx.answerCbQuery('✖️ Unscheduled');
+  await ctx.editMessageReplyMarkup(undefined);
+});
+
+bot.command('slots', requirePermission('view'), async (ctx) => {
+  const slots = await pool.query<PublishSlot>(
+    'SELECT * FROM publish_slots WHERE workspace_id = $1 ORDER BY slot_time, id',
+    [ctx.access.workspaceId]
+  );
+  
+  if (slots.rows.length === 0) {
+    return ctx.reply(
+      '📭 No publishing slots. Approved posts are published right away.\n\n' +
+      'Add one with /addslot <weekdays|weekends|daily|mon,wed,fri> <HH:MM>'
+    );
+  }
+  
+  let message = '🕘 *Publishing Slots*\n\n';
+  
+  for (const slot of slots.rows) {
+    message += `\`${slot.id}\` ${formatSlotDays(slot.days)} at ${slot.slot_time.slice(0, 5)}\n`;
+  }
+  
+  message += '\nApproved posts take the next free slot. Use /delslot <id> to remove one';
+  
+  await ctx.reply(message, { parse_mode: 'Markdown' });
+});
+
+bot.command('addslot', requirePermission('manage_settings'), async (ctx) => {
+  const [, days, time] = ctx.message.text.trim().split(/\s+/);
+  
+  if (!days || !time || !/^\d{1,2}:\d{2}$/.test(time)) {
+    return ctx.reply('Usage: /addslot <weekdays|weekends|daily|mon,wed,fri> <HH:MM>');
+  }
+  
+  let slotDays: number[];
+  try {
+    slotDays = parseSlotDays(days);
+  } catch (error) {
+    return ctx.reply(`❌ ${errorMessage(error)}`);
+  }
+  
+  const [hours, minutes] = time.split(':').map(Number);
+  if (hours > 23 || minutes > 59) {
+    return ctx.reply('❌ Time must be between 00:00 and 23:59.');
+  }
+  
+  const result = await pool.query(
+    'INSERT INTO publish_slots (workspace_id, days, slot_time) VALUES ($1, $2, $3) RETURNING id',
+    [ctx.access.workspaceId, slotDays, time]
+  );
+  
+  await ctx.reply(`✅ Slot \`${result.rows[0].id}\` added: ${formatSlotDays(slotDays)} at ${time}.`, { parse_mode: 'Markdown' });
+});
+
+bot.command('delslot', requirePermission('manage_settings'), async (ctx) => {
+  const slotId = ctx.message.text.split(' ')[1];
+  if (!isId(slotId)) {
+    return ctx.reply('Usage: /delslot <slot_id>');
+  }
+  
+  await pool.query(
+    'DELETE FROM publish_slots WHERE id = $1 AND workspace_id = $2',
+    [parseInt(slotId), ctx.access.workspaceId]
+  );
+  
+  await ctx.reply('✅ Slot removed. Posts already scheduled keep their time.');
+});
+
+bot.command('timezone', requirePermission('view'), async (ctx) => {
+  const input = ctx.message.text.split(' ')[1];
+  
+  if (!input) {
+    const workspace = await pool.query<Workspace>('SELECT * FROM workspaces WHERE id = $1', [ctx.access.workspaceId]);
+    return ctx.reply(`🌍 Workspace timezone: ${workspace.rows[0]?.timezone ?? 'UTC'}\n\nChange it with /timezone <Area/City>`);
+  }
+  
+  if (!ctx.access.permissions.has('manage_settings')) return denyAccess(ctx);
+  
+  let timezone: string;
+  try {
+    timezone = validateTimezone(input);
+  } catch (error) {
+    return ctx.reply(`❌ ${errorMessage(error)}`);
+  }
+  
+  await pool.query('UPDATE workspaces SET timezone = $2 WHERE id = $1', [ctx.access.workspaceId, timezone]);
+  
+  const digests = await pool.query<Digest>('SELECT * FROM digests WHERE workspace_id = $1 AND is_active', [ctx.access.workspaceId]);
+  for (const digest of digests.rows) {
+    await pool.query('UPDATE digests SET next_run_at = $2 WHERE id = $1', [digest.id, nextCronRun(digest.cron, timezone, new Date())]);
+  }
+  
+  await ctx.reply(`✅ Timezone set to ${timezone}. Slots and digests now follow local time there.`);
+});
+
+// Digests
+const DIGEST_PRESETS: Record<string, string> = {
+  daily: '0 9 * * *',
+  weekly: '0 9 * * 1'
+};
+const DIGEST_POST_CHARS = 1500;
+// Telegram messages are capped at 4096 characters
+const TELEGRAM_MESSAGE_CHARS = 4000;
+
+interface CronFields {
+  minutes: number[];
+  hours: number[];
+  days: number[];
+  months: number[];
+  // ISO weekdays, 1 = Monday
+  weekdays: number[];
+  // Cron matches either day field when both are restricted, otherwise both
+  eitherDay: boolean;
+}
+
+// One cron field: "*", "5", "1-5", "*/15", "1-30/2" or a comma-separated list of those
+function parseCronField(field: string, min: number, max: number): number[] {
+  const values = new Set<number>();
+  
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) throw new Error(`Invalid cron field "${field}".`);
+    
+    const start = match[1] === '*' ? min : parseInt(match[2]);
+    const end = match[1] === '*' ? max : match[3] !== undefined ? parseInt(match[3]) : match[4] ? max : start;
+    const step = match[4] ? parseInt(match[4]) : 1;
+    
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Cron field "${field}" must stay within ${min}-${max}.`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  
+  return [...values].sort((a, b) => a - b);
+}
+
+// Standard five-field cron (minute hour day-of-month month day-of-week), or daily/weekly
+function parseCron(expression: string): CronFields {
+  const fields = (DIGEST_PRESETS[expression.toLowerCase()] || expression).trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('A schedule is daily, weekly or five cron fields, e.g. 0 9 * * 1 for Mondays at 09:00.');
+  }
+  
+  return {
+    minutes: parseCronField(fields[0], 0, 59),
+    hours: parseCronField(fields[1], 0, 23),
+    days: parseCronField(fields[2], 1, 31),
+    months: parseCronField(fields[3], 1, 12),
+    // Cron counts Sunday as 0 or 7
+    weekdays: [...new Set(parseCronField(fields[4], 0, 7).map(day => day === 0 ? 7 : day))],
+    eitherDay: fields[2] !== '*' && fields[4] !== '*'
+  };
+}
+
+// Wall-clock date and time of an instant in a timezone
+function zonedParts(timezone: string, at: Date) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)!.value);
+  
+  return { year: part('year'), month: part('month'), day: part('day'), hour: part('hour'), minute: part('minute'), second: part('second') };
+}
+
+// The instant a wall-clock time in a timezone stands for. Like Postgres, a time skipped by a
+// DST change is read with the offset from before the change (02:30 becomes 03:30).
+function zonedTimeToUtc(timezone: string, year: number, month: number, day: number, hour: number, minute: number): Date {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = (at: number) => {
+    const p = zonedParts(timezone, new Date(at));
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(at / 1000) * 1000;
+  };
+  
+  return new Date(wall - offset(wall - offset(wall)));
+}
+
+// The first time after `after` that a cron expression matches, read in the given timezone.
+// Days are walked one at a time for a year; only the times of matching days are tried.
+function nextCronRun(expression: string, timezone: string, after: Date): Date | null {
+  const cron = parseCron(expression);
+  const local = zonedParts(timezone, after);
+  
+  for (let offset = 0; offset <= 366; offset++) {
+    const date = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+    const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+    const dayMatches = cron.days.includes(day);
+    const weekdayMatches = cron.weekdays.includes(date.getUTCDay() || 7);
+    
+    if (!cron.months.includes(month)) continue;
+    if (cron.eitherDay ? !dayMatches && !weekdayMatches : !dayMatches || !weekdayMatches) continue;
+    
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        // Earlier times of the day `after` falls on have already passed
+        if (offset === 0 && hour * 60 + minute < local.hour * 60 + local.minute) continue;
+        
+        const at = zonedTimeToUtc(timezone, year, month, day, hour, minute);
+        if (at > after) return at;
+      }
+    }
+  }
+  
+  return null;
+}
+
+// Queue every digest that is due and move it on to its next run. The schedule lives in the
+// digests table, so a run missed while the bot was down happens once it is back.
+async function queueDueDigests() {
+  try {
+    const due = await pool.query<Digest & { timezone: string }>(
+      `SELECT d.*, w.timezone FROM digests d
+       JOIN workspaces w ON w.id = d.workspace_id
+       WHERE d.is_active AND d.next_run_at <= NOW()`
+    );
+    
+    for (const digest of due.rows) {
+      const periodEnd = digest.next_run_at!;
+      const nextRun = nextCronRun(digest.cron, digest.timezone, new Date());
+      
+      // Another instance that got here first has already moved next_run_at on
+      const claimed = await pool.query(
+        'UPDATE digests SET next_run_at = $2, last_period_end = $3 WHERE id = $1 AND next_run_at = $3',
+        [digest.id, nextRun, periodEnd]
+      );
+      if (claimed.rowCount === 0) continue;
+      
+      await enqueueJob(
+        'digest',
+        { digestId: digest.id, periodStart: digest.last_period_end ?? digest.created_at, periodEnd },
+        `digest:${digest.id}:${periodEnd.toISOString()}`
+      );
+    }
+  } catch (error) {
+    console.error('Error queueing digests:', error);
+  }
+}
+
+const DigestSchema = z.object({
+  title: z.string().trim().max(500),
+  intro: z.string().trim().default(''),
+  sections: z.array(z.object({
+    source: z.string(),
+    summary: z.string().trim()
+  }))
+});
+
+// Write a digest of the period's posts (digest job) and send it down the usual review and publish path
+async function generateDigest(digestId: number, periodStart: Date, periodEnd: Date) {
+  const result = await pool.query<Digest>('SELECT * FROM digests WHERE id = $1 AND is_active', [digestId]);
+  if (result.rows.length === 0) return;
+  
+  const digest = result.rows[0];
+  
+  // A retried job whose post was already written has nothing left to do
+  const existing = await pool.query(
+    'SELECT id FROM blog_posts WHERE digest_id = $1 AND digest_period_end = $2',
+    [digest.id, periodEnd]
+  );
+  if (existing.rows.length > 0) return;
+  
+  // Created and published times are stored in the database's local time
+  const posts = await pool.query<BlogPost & { chat_title: string | null }>(
+    `SELECT bp.*, ms.chat_title
+     FROM blog_posts bp
+     LEFT JOIN monitored_sources ms ON ms.id = bp.source_id
+     WHERE bp.workspace_id = $1 AND bp.digest_id IS NULL AND bp.duplicate_of IS NULL
+       AND (cardinality($2::int[]) = 0 OR bp.source_id = ANY($2))
+       AND CASE WHEN $3 = 'published'
+         THEN bp.status = 'published' AND bp.published_at::timestamptz >= $4 AND bp.published_at::timestamptz < $5
+         ELSE bp.status <> 'rejected' AND bp.created_at::timestamptz >= $4 AND bp.created_at::timestamptz < $5
+       END
+     ORDER BY bp.source_id, COALESCE(bp.published_at, bp.created_at)`,
+    [digest.workspace_id, digest.source_ids, digest.scope, periodStart, periodEnd]
+  );
+  
+  if (posts.rows.length === 0) {
+    console.log(`Digest ${digest.id} has no posts between ${periodStart.toISOString()} and ${periodEnd.toISOString()}`);
+    return;
+  }
+  
+  const sections = new Map<string, BlogPost[]>();
+  for (const post of posts.rows) {
+    const source = post.chat_title || 'Other';
+    sections.set(source, [...(sections.get(source) || []), post]);
+  }
+  
+  const settings = await getWorkspace(digest.workspace_id);
+  const provider = getLLMProvider(settings);
+  const perPostChars = Math.min(DIGEST_POST_CHARS, Math.floor(AI_MAX_INPUT_TOKENS * CHARS_PER_TOKEN / posts.rows.length));
+  const period = `${periodStart.toISOString().slice(0, 10)} – ${periodEnd.toISOString().slice(0, 10)}`;
+  
+  let summary: z.infer<typeof DigestSchema> = { title: `${digest.name}: ${period}`, intro: '', sections: [] };
+  const postsText = [...sections.entries()]
+    .map(([source, sourcePosts]) =>
+      `# Source: ${source}\n\n` +
+      sourcePosts.map(post => `## ${post.title}\n${post.content.slice(0, perPostChars)}`).join('\n\n')
+    )
+    .join('\n\n');
+  
+  try {
+    const raw = await provider.generateText(`Write a digest of a team wiki's posts from ${period}, grouped by the source they came from.
+Return a short title, a one or two sentence intro, and one section per source (in the order given, "source" exactly as given)
+with a two to four sentence summary of what happened there. Use only the posts below.
+
+${postsText}`, { json: true, schema: toProviderSchema(DigestSchema) });
+    
+    const jsonMatch = raw.match(/\{[\s\S]*\}/);
+    summary = DigestSchema.parse(JSON.parse(jsonMatch ? jsonMatch[0] : raw));
+  } catch (error) {
+    // Without summaries the digest is still a useful list of links
+    console.error(`Error summarizing digest ${digest.id}:`, error);
+  }
+  
+  const links = await getPostLinks(posts.rows.map(post => post.id));
+  const lines = summary.intro ? [summary.intro, ''] : [];
+  
+  for (const [source, sourcePosts] of sections) {
+    lines.push(`## ${source}`, '');
+    
+    const sectionSummary = summary.sections.find(section => section.source === source)?.summary;
+    if (sectionSummary) lines.push(sectionSummary, '');
+    
+    for (const post of sourcePosts) {
+      const url = links.get(post.id)?.notionUrl || links.get(post.id)?.githubUrl;
+      lines.push(url ? `- [${post.title}](${url})` : `- ${post.title}`);
+    }
+    lines.push('');
+  }
+  
+  const inserted = await pool.query(
+    `INSERT INTO blog_posts (user_id, workspace_id, title, content, media_urls, source_messages, category, tags, digest_id, digest_period_end, status)
+     VALUES ($1, $2, $3, $4, '{}', '{}', 'Digest', ARRAY['digest'], $5, $6, 'pending')
+     ON CONFLICT (digest_id, digest_period_end) DO NOTHING
+     RETURNING id`,
+    [digest.user_id, digest.workspace_id, summary.title || `${digest.name}: ${period}`, lines.join('\n').trim(), digest.id, periodEnd]
+  );
+  if (inserted.rows.length === 0) return;
+  
+  const postId = inserted.rows[0].id;
+  
+  await logPostEvent(postId, null, 'created', { digest: digest.name });
+  
+  if (await shouldAutoPublish(settings, digest.workspace_id)) {
+    await releasePost(postId, digest.user_id);
+  } else {
+    await bot.telegram.sendMessage(
+      digest.user_id,
+      `📰 Digest *${digest.name}* for ${period} is waiting for review.`,
+      { parse_mode: 'Markdown', ...getPendingPostKeyboard(postId) }
+    );
+  }
+}
+
+// Post a published digest to its chat, with Markdown headings turned into Telegram's bold
+async function sendDigestToChat(post: BlogPost) {
+  const digest = await pool.query<Digest>('SELECT * FROM digests WHERE id = $1', [post.digest_id]);
+  const chatId = digest.rows[0]?.chat_id;
+  if (!chatId) return;
+  
+  const body = post.content
+    .replace(/^#+\s*(.+)$/gm, '*$1*')
+    .replace(/^- /gm, '• ');
+  const text = `📰 *${post.title}*\n\n${body}`.slice(0, TELEGRAM_MESSAGE_CHARS);
+  const options = {
+    link_preview_options: { is_disabled: true },
+    ...(digest.rows[0].topic_id ? { message_thread_id: digest.rows[0].topic_id } : {})
+  };
+  
+  try {
+    await bot.telegram.sendMessage(chatId, text, { parse_mode: 'Markdown', ...options });
+  } catch {
+    // Titles Telegram cannot parse as Markdown are sent as plain text
+    try {
+      await bot.telegram.sendMessage(chatId, text, options);
+    } catch (error) {
+      console.error(`Error sending digest post ${post.id} to chat ${chatId}:`, error);
+    }
+  }
+}
+
+bot.command('digests', requirePermission('view'), async (ctx) => {
+  const digests = await pool.query<Digest & { next_run: string | null }>(
+    `SELECT d.*, to_char(d.next_run_at AT TIME ZONE w.timezone, $2) AS next_run
+     FROM digests d
+     JOIN workspaces w ON w.id = d.workspace_id
+     WHERE d.workspace_id = $1
+     ORDER BY d.id`,
+    [ctx.access.workspaceId, SCHEDULE_TIME_FORMAT]
+  );
+  
+  if (digests.rows.length === 0) {
+    return ctx.reply(
+      '📭 No digests yet.\n\n' +
+      'Add one with:\n/adddigest <name> [scope=published|all] [sources=<id,id>] [chat=<chat_id>] <daily|weekly|cron>'
+    );
+  }
+  
+  let message = '📰 *Digests*\n\n';
+  
+  for (const digest of digests.rows) {
+    message += `${boldMarkdown(digest.name)} (\`${digest.id}\`)${digest.is_active ? '' : ' — paused'}\n`;
+    message += `   Schedule: \`${digest.cron}\`, next ${digest.next_run || 'never'}\n`;
+    message += `   Covers: ${digest.scope === 'all' ? 'all informational posts' : 'published posts'} from ` +
+      `${digest.source_ids.length > 0 ? `sources ${digest.source_ids.join(', ')}` : 'every source'}\n`;
+    if (digest.chat_id) message += `   Sent to chat \`${digest.chat_id}\`\n`;
+    message += '\n';
+  }
+  
+  message += 'Use /rundigest <id> to write one now, /deldigest <id> to remove one';
+  
+  await ctx.reply(message, { parse_mode: 'Markdown' });
+});
+
+// Digests go to chats the workspace monitors, or to a chat the bot is in where the user is an admin
+async function canSendDigestTo(chatId: number, userId: number, workspaceId: number): Promise<boolean> {
+  const monitored = await pool.query(
+    'SELECT 1 FROM monitored_sources WHERE workspace_id = $1 AND chat_id = $2 AND is_active',
+    [workspaceId, chatId]
+  );
+  if (monitored.rows.length > 0) return true;
+  
+  try {
+    const member = await bot.telegram.getChatMember(chatId, userId);
+    return member.status === 'creator' || member.status === 'administrator';
+  } catch {
+    // The bot is not in the chat, or the chat does not exist
+    return false;
+  }
+}
+
+bot.command('adddigest', requirePermission('manage_settings'), async (ctx) => {
+  const [, name, ...rest] = ctx.message.text.trim().split(/\s+/);
+  const options = parseCommandOptions(ctx.message.text);
+  const schedule = rest.filter(part => !part.includes('=')).join(' ');
+  const usage = 'Usage: /adddigest <name> [scope=published|all] [sources=<id,id>] [chat=<chat_id>] <daily|weekly|cron>\n\n' +
+    'Example: /adddigest weekly-roundup scope=all sources=3,4 0 9 * * 1\n' +
+    'The digest is posted to this chat unless chat= names another one.';
+  
+  if (!name || name.includes('=') || !schedule || (options.scope && !['published', 'all'].includes(options.scope))) {
+    return ctx.reply(usage);
+  }
+  
+  const sourceIds = options.sources ? options.sources.split(',').map(Number) : [];
+  if (sourceIds.some(Number.isNaN) || (options.chat && !/^-?\d+$/.test(options.chat))) {
+    return ctx.reply(usage);
+  }
+  
+  if (options.chat && !await canSendDigestTo(parseInt(options.chat), ctx.from.id, ctx.access.workspaceId!)) {
+    return ctx.reply('❌ I can only post digests to chats this workspace monitors, or to chats I am in where you are an admin.');
+  }
+  
+  const owned = await pool.query(
+    'SELECT COUNT(*) FROM monitored_sources WHERE id = ANY($1) AND workspace_id = $2',
+    [sourceIds, ctx.access.workspaceId]
+  );
+  if (Number(owned.rows[0].count) !== new Set(sourceIds).size) {
+    return ctx.reply('❌ Unknown source. Check 📋 List Sources.');
+  }
+  
+  const workspace = await pool.query<Workspace>('SELECT * FROM workspaces WHERE id = $1', [ctx.access.workspaceId]);
+  
+  let nextRun: Date | null;
+  try {
+    nextRun = nextCronRun(schedule, workspace.rows[0]?.timezone ?? 'UTC', new Date());
+  } catch (error) {
+    return ctx.reply(`❌ ${errorMessage(error)}`);
+  }
+  
+  if (!nextRun) {
+    return ctx.reply('❌ That schedule has no run in the next year. Check its day and month fields.');
+  }
+  
+  const chatId = options.chat ? parseInt(options.chat) : ctx.chat.id;
+  const topicId = !options.chat && ctx.message.is_topic_message ? ctx.message.message_thread_id : null;
+  
+  const result = await pool.query(
+    `INSERT INTO digests (workspace_id, user_id, name, cron, scope, source_ids, chat_id, topic_id, next_run_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     RETURNING id, to_char(next_run_at AT TIME ZONE $10, $11) AS next_run`,
+    [
+      ctx.access.workspaceId,
+      ctx.from.id,
+      name,
+      DIGEST_PRESETS[schedule.toLowerCase()] || schedule,
+      options.scope || 'published',
+      sourceIds,
+      chatId,
+      topicId,
+      nextRun,
+      workspace.rows[0]?.timezone ?? 'UTC',
+      SCHEDULE_TIME_FORMAT
+    ]
+  );
+  
+  await ctx.reply(
+    `✅ Digest *${name}* added with ID \`${result.rows[0].id}\`. The first one covers everything from now until ` +
+    `${result.rows[0].next_run}.`,
+    { parse_mode: 'Markdown' }
+  );
+});
+
+bot.command('deldigest', requirePermission('manage_settings'), async (ctx) => {
+  const digestId = ctx.message.text.split(' ')[1];
+  if (!isId(digestId)) {
+    return ctx.reply('Usage: /deldigest <digest_id>');
+  }
+  
+  await pool.query(
+    'DELETE FROM digests WHERE id = $1 AND workspace_id = $2',
+    [parseInt(digestId), ctx.access.workspaceId]
+  );
+  
+  await ctx.reply('✅ Digest removed. Digest posts already written are kept.');
+});
+
+// Write a digest of everything since the last one, without waiting for the schedule
+bot.command('rundigest', requirePermission('manage_settings'), async (ctx) => {
+  const digestId = ctx.message.text.split(' ')[1];
+  if (!isId(digestId)) {
+    return ctx.reply('Usage: /rundigest <digest_id>');
+  }
+  
+  const periodEnd = new Date();
+  const result = await pool.query<Digest & { previous_period_end: Date | null }>(
+    `UPDATE digests d SET last_period_end = $3
+     FROM digests previous
+     WHERE d.id = $1 AND d.workspace_id = $2 AND previous.id = d.id
+     RETURNING d.*, previous.last_period_end AS previous_period_end`,
+    [parseInt(digestId), ctx.access.workspaceId, periodEnd]
+  );
+  
+  if (result.rows.length === 0) {
+    return ctx.reply('❌ Digest not found. Check /digests.');
+  }
+  
+  const digest = result.rows[0];
+  await enqueueJob(
+    'digest',
+    { digestId: digest.id, periodStart: digest.previous_period_end ?? digest.created_at, periodEnd },
+    `digest:${digest.id}:${periodEnd.toISOString()}`
+  );
+  
+  await ctx.reply('📰 Writing the digest. It will show up for review (or be published) shortly.');
+});
+
+// Edit post scene
+function getEditMenu(draft: PostDraft) {
+  const rows = [
+    [Markup.button.callback('🏷 Replace title', 'editor_title')],
+    [
+      Markup.button.callback('📝 Replace content', 'editor_replace'),
+      Markup.button.callback('➕ Append content', 'editor_append')
+    ]
+  ];
+  
+  if (draft.media_urls.length > 0) {
+    rows.push([Markup.button.callback(`🖼 Remove media (${draft.media_urls.length})`, 'editor_media')]);
+  }
+  
+  rows.push([Markup.button.callback('👁 Preview', 'editor_preview')]);
+  rows.push([
+    Markup.button.callback('💾 Save', 'editor_save'),
+    Markup.button.callback('✖️ Cancel', 'editor_cancel')
+  ]);
+  
+  return Markup.inlineKeyboard(rows);
+}
+
+const editPostScene = new Scenes.BaseScene<BotContext>('edit_post');
+
+editPostScene.enter(async (ctx) => {
+  const { postId, draft } = ctx.scene.state as { postId: number; draft: PostDraft };
+  
+  ctx.scene.session.postId = postId;
+  ctx.scene.session.draft = draft;
+  ctx.scene.session.editMode = undefined;
+  
+  await ctx.reply(
+    `✏️ *Editing:* ${draft.title}\n\nChoose what to change, then preview and save.`,
+    { parse_mode: 'Markdown', ...getEditMenu(draft) }
+  );
+});
+
+editPostScene.action('editor_title', async (ctx) => {
+  ctx.scene.session.editMode = 'title';
+  await ctx.answerCbQuery();
+  await ctx.reply('🏷 Send the new title.');
+});
+
+editPostScene.action('editor_replace', async (ctx) => {
+  ctx.scene.session.editMode = 'replace';
+  await ctx.answerCbQuery();
+  await ctx.reply('📝 Send the new content (markdown). It will replace the current content.');
+});
+
+editPostScene.action('editor_append', async (ctx) => {
+  ctx.scene.session.editMode = 'append';
+  await ctx.answerCbQuery();
+  await ctx.reply('➕ Send the text to append to the end of the post.');
+});
+
+editPostScene.action('editor_media', async (ctx) => {
+  const { draft } = ctx.scene.session;
+  const assets = await getMediaAssets(draft!.media_urls);
+  
+  const buttons = draft!.media_urls.map((url, i) => {
+    const kind = assets.find(a => a.url === url)?.kind || 'photo';
+    return [Markup.button.callback(`❌ #${i + 1} ${kind}`, `editor_rmmedia_${i}`)];
+  });
+  
+  await ctx.answerCbQuery();
+  await ctx.reply(
+    '🖼 Tap a file to remove it from the post:\n\n' +
+    draft!.media_urls.map((url, i) => `#${i + 1}: ${url}`).join('\n'),
+    Markup.inlineKeyboard(buttons)
+  );
+});
+
+editPostScene.action(/editor_rmmedia_(\d+)/, async (ctx) => {
+  const { draft } = ctx.scene.session;
+  const index = parseInt(ctx.match[1]);
+  
+  if (index >= draft!.media_urls.length) {
+    return ctx.answerCbQuery('Already removed');
+  }
+  
+  draft!.media_urls.splice(index, 1);
+  await ctx.answerCbQuery(`Removed media #${index + 1}`);
+  await ctx.editMessageText(`🗑 Media #${index + 1} removed.`);
+  await ctx.reply('What next?', getEditMenu(draft!));
+});
+
+editPostScene.action('editor_preview', async (ctx) => {
+  const { draft } = ctx.scene.session;
+  
+  let preview = `${draft!.title}\n\n${draft!.content.substring(0, 3500)}`;
+  if (draft!.content.length > 3500) preview += '...';
+  if (draft!.media_urls.length > 0) preview += `\n\n🖼 ${draft!.media_urls.length} media file(s)`;
+  
+  await ctx.answerCbQuery();
+  await ctx.reply(preview, getEditMenu(draft!));
+});
+
+editPostScene.action('editor_save', async (ctx) => {
+  const { postId, draft } = ctx.scene.session;
+  
+  const result = await pool.query(
+    `UPDATE blog_posts SET title = $1, content = $2, media_urls = $3, updated_at = NOW()
+     WHERE id = $4 AND status = 'pending'`,
+    [draft!.title, draft!.content, draft!.media_urls, postId]
+  );
+  
+  if (result.rowCount === 0) {
+    await ctx.answerCbQuery('❌ Post is no longer pending');
+    return ctx.scene.leave();
+  }
+  
+  await logPostEvent(postId!, ctx.from!.id, 'edited');
+  await saveRevision(postId!, ctx.from!.id);
+  await ctx.answerCbQuery('💾 Saved');
+  await ctx.scene.leave();
+  
+  let message = `📝 *${draft!.title}*\n\n${draft!.content.substring(0, 500)}`;
+  if (draft!.content.length > 500) message += '...';
+  
+  await ctx.reply(message, { parse_mode: 'Markdown', ...getPendingPostKeyboard(postId!) });
+});
+
+editPostScene.action('editor_cancel', async (ctx) => {
+  await ctx.answerCbQuery('Edit cancelled');
+  await ctx.scene.leave();
+  await ctx.reply('✖️ Edit cancelled, the post was not changed.');
+});
+
+editPostScene.command('cancel', async (ctx) => {
+  await ctx.scene.leave();
+  await ctx.reply('✖️ Edit cancelled, the post was not changed.');
+});
+
+editPostScene.on(message('text'), async (ctx, next) => {
+  const { draft, editMode } = ctx.scene.session;
+  
+  // Menu buttons and commands keep working while no edit is in progress
+  if (!editMode) return next();
+  
+  const text = ctx.message.text.trim();
+  
+  if (editMode === 'title') {
+    draft!.title = text.substring(0, 500);
+  } else if (editMode === 'replace') {
+    draft!.content = text;
+  } else {
+    draft!.content = `${draft!.content}\n\n${text}`;
+  }
+  
+  ctx.scene.session.editMode = undefined;
+  await ctx.reply('✅ Updated. Preview or keep editing:', getEditMenu(draft!));
+});
+
+stage.register(editPostScene);
+
+bot.action(/edit_(\d+)/, requirePostPermission('edit'), async (ctx) => {
+  const postId = parseInt(ctx.match![1]);
+  const post = await pool.query<BlogPost>(
+    'SELECT * FROM blog_posts WHERE id = $1 AND status = $2',
+    [postId, 'pending']
+  );
+  
+  if (post.rows.length === 0) {
+    return ctx.answerCbQuery('❌ Post is no longer pending');
+  }
+  
+  const { title, content, media_urls } = post.rows[0];
+  
+  await ctx.answerCbQuery();
+  await ctx.scene.enter('edit_post', {
+    postId,
+    draft: { title, content, media_urls: [...(media_urls || [])] }
+  });
+});
+
+// Parse "key=value" options from a command's arguments
+function parseCommandOptions(text: string): Record<string, string> {
+  const options: Record<string, string> = {};
+  
+  for (const part of text.split(/\s+/).slice(1)) {
+    const [key, ...value] = part.split('=');
+    if (value.length > 0) options[key.toLowerCase()] = value.join('=');
+  }
+  
+  return options;
+}
+
+// Publishing destinations and routing rules
+bot.command('destinations', requirePermission('manage_settings'), async (ctx) => {
+  const destinations = await pool.query<PublishDestination>(
+    'SELECT * FROM publish_destinations WHERE workspace_id = $1 ORDER BY id',
+    [ctx.access.workspaceId]
+  );
+  
+  if (destinations.rows.length === 0) {
+    return ctx.reply(
+      '📭 No destinations yet. Posts go to the Notion database and GitHub repo from ⚙️ Settings.\n\n' +
+      'Add one with:\n/adddestination <name> notion=<database_id> repo=<owner/repo> branch=<branch> folder=<path>'
+    );
+  }
+  
+  let message = '🎯 *Publishing Destinations*\n\n';
+  
+  for (const destination of destinations.rows) {
+    message += `*${destination.name}* (\`${destination.id}\`)\n`;
+    if (destination.notion_database_id) message += `   Notion: \`${destination.notion_database_id}\`\n`;
+    if (destination.github_repo) {
+      message += `   GitHub: ${destination.github_repo}` +
+        `${destination.github_branch ? `@${destination.github_branch}` : ''}` +
+        ` → ${destination.github_folder || '_posts'}\n`;
+    }
+    message += '\n';
+  }
+  
+  message += 'Use /route to send sources or topics to a destination, /deldestination <id> to remove one';
+  
+  await ctx.reply(message, { parse_mode: 'Markdown' });
+});
+
+bot.command('adddestination', requirePermission('manage_settings'), async (ctx) => {
+  const name = ctx.message.text.split(/\s+/)[1];
+  const options = parseCommandOptions(ctx.message.text);
+  
+  if (!name || name.includes('=') || (!options.notion && !options.repo)) {
+    return ctx.reply('Usage: /adddestination <name> notion=<database_id> repo=<owner/repo> branch=<branch> folder=<path>');
+  }
+  
+  let notionDatabaseId: string | null = null;
+  let githubRepo: string | null = null;
+  
+  try {
+    if (options.notion) notionDatabaseId = await validateNotionDatabase(options.notion);
+    if (options.repo) githubRepo = await validateGitHubRepo(options.repo);
+  } catch (error) {
+    return ctx.reply(`❌ ${errorMessage(error)}`);
+  }
+  
+  const result = await pool.query(
+    `INSERT INTO publish_destinations (user_id, workspace_id, name, notion_database_id, github_repo, github_branch, github_folder)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING id`,
+    [ctx.from.id, ctx.access.workspaceId, name, notionDatabaseId, githubRepo, options.branch || null, options.folder || null]
+  );
+  
+  await ctx.reply(
+    `✅ Destination *${name}* added with ID \`${result.rows[0].id}\`.\n\n` +
+    'Route posts to it with /route <source_id|*> <destination_id> [keyword:|tag:|category:<value>]',
+    { parse_mode: 'Markdown' }
+  );
+});
+
+bot.command('deldestination', requirePermission('manage_settings'), async (ctx) => {
+  const destinationId = ctx.message.text.split(' ')[1];
+  if (!isId(destinationId)) {
+    return ctx.reply('Usage: /deldestination <destination_id>');
+  }
+  
+  await pool.query(
+    'DELETE FROM publish_destinations WHERE id = $1 AND workspace_id = $2',
+    [parseInt(destinationId), ctx.access.workspaceId]
+  );
+  
+  await ctx.reply('✅ Destination and its routing rules removed.');
+});
+
+bot.command('route', requirePermission('manage_settings'), async (ctx) => {
+  const [, source, destination, condition] = ctx.message.text.split(/\s+/);
+  const conditionMatch = condition?.match(/^(keyword|tag|category):(.+)$/i);
+  
+  if ((source !== '*' && !isId(source)) || !isId(destination) || (condition && !conditionMatch)) {
+    return ctx.reply(
+      'Usage: /route <source_id|*> <destination_id> [keyword:<word>|tag:<tag>|category:<name>]\n\n' +
+      'Examples:\n' +
+      '/route 3 1 — everything from source 3 goes to destination 1\n' +
+      '/route * 2 tag:release — posts tagged "release" from any source go to destination 2'
+    );
+  }
+  
+  const sourceId = source === '*' ? null : parseInt(source);
+  
+  const owned = await pool.query(
+    `SELECT
+       (SELECT COUNT(*) FROM publish_destinations WHERE id = $1 AND workspace_id = $3) AS destinations,
+       (SELECT COUNT(*) FROM monitored_sources WHERE id = $2 AND workspace_id = $3) AS sources`,
+    [parseInt(destination), sourceId, ctx.access.workspaceId]
+  );
+  
+  if (owned.rows[0].destinations === '0' || (sourceId !== null && owned.rows[0].sources === '0')) {
+    return ctx.reply('❌ Unknown source or destination. Check 📋 List Sources and /destinations.');
+  }
+  
+  const result = await pool.query(
+    `INSERT INTO routing_rules (user_id, workspace_id, source_id, match_type, pattern, destination_id)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id`,
+    [
+      ctx.from.id,
+      ctx.access.workspaceId,
+      sourceId,
+      conditionMatch ? conditionMatch[1].toLowerCase() : 'any',
+      // Tags are stored normalized, so tag conditions are too
+      conditionMatch?.[1].toLowerCase() === 'tag' ? normalizeTag(conditionMatch[2]) : conditionMatch?.[2] ?? null,
+      parseInt(destination)
+    ]
+  );
+  
+  await ctx.reply(`✅ Routing rule \`${result.rows[0].id}\` added.`, { parse_mode: 'Markdown' });
+});
+
+bot.command('routes', requirePermission('manage_settings'), async (ctx) => {
+  const rules = await pool.query(
+    `SELECT r.*, d.name AS destination_name, ms.chat_title
+     FROM routing_rules r
+     JOIN publish_destinations d ON r.destination_id = d.id
+     LEFT JOIN monitored_sources ms ON r.source_id = ms.id
+     WHERE r.workspace_id = $1
+     ORDER BY r.priority DESC, r.id ASC`,
+    [ctx.access.workspaceId]
+  );
+  
+  if (rules.rows.length === 0) {
+    return ctx.reply('📭 No routing rules. Every post goes to the destinations in ⚙️ Settings.');
+  }
+  
+  let message = '🔀 *Routing Rules*\n\n';
+  
+  for (const rule of rules.rows) {
+    const from = rule.chat_title ? `*${rule.chat_title}*` : 'any source';
+    const condition = rule.match_type === 'any' ? '' : ` with ${rule.match_type} "${rule.pattern}"`;
+    message += `\`${rule.id}\` ${from}${condition} → ${rule.destination_name}\n`;
+  }
+  
+  message += '\nUse /unroute <rule_id> to remove a rule';
+  
+  await ctx.reply(message, { parse_mode: 'Markdown' });
+});
+
+bot.command('unroute', requirePermission('manage_settings'), async (ctx) => {
+  const ruleId = ctx.message.text.split(' ')[1];
+  if (!isId(ruleId)) {
+    return ctx.reply('Usage: /unroute <rule_id>');
+  }
+  
+  await pool.query(
+    'DELETE FROM routing_rules WHERE id = $1 AND workspace_id = $2',
+    [parseInt(ruleId), ctx.access.workspaceId]
+  );
+  
+  await ctx.reply('✅ Routing rule removed.');
+});
+
+// Taxonomy management
+const TAGS_USAGE = 'Usage:\n' +
+  '/tags — show your tags and categories\n' +
+  '/tags add <tag> [<tag> ...]\n' +
+  '/tags remove <tag> [<tag> ...]\n' +
+  '/tags addcategory <name>\n' +
+  '/tags removecategory <name>\n\n' +
+  'With tags or categories defined, the AI only assigns those. ' +
+  'Use them in /search (tag:<tag> category:<name>) and /route conditions.';
+
+bot.command('tags', requirePermission('view'), async (ctx) => {
+  const [, action, ...args] = ctx.message.text.trim().split(/\s+/);
+  
+  if (!action) {
+    const taxonomy = await getTaxonomy(ctx.access.workspaceId!);
+    const usage = await pool.query(
+      `SELECT tag, COUNT(*) AS posts FROM blog_posts, unnest(tags) AS tag
+       WHERE workspace_id = $1 GROUP BY tag`,
+      [ctx.access.workspaceId]
+    );
+    const counts = new Map(usage.rows.map(row => [row.tag, row.posts]));
+    
+    let message = '🏷 *Taxonomy*\n\n';
+    message += '*Categories:* ' + (taxonomy.categories.length > 0 ? taxonomy.categories.join(', ') : 'any') + '\n\n';
+    message += '*Tags:* ' + (taxonomy.tags.length > 0
+      ? taxonomy.tags.map(tag => `${tag} (${counts.get(tag) || 0})`).join(', ')
+      : 'any') + '\n\n';
+    message += TAGS_USAGE;
+    
+    return ctx.reply(message.replace(/_/g, '\\_'), { parse_mode: 'Markdown' });
+  }
+  
+  if (!ctx.access.permissions.has('manage_settings')) return denyAccess(ctx);
+  
+  const command = action.toLowerCase();
+  const isCategory = command === 'addcategory' || command === 'removecategory';
+  const names = isCategory
+    ? [args.join(' ').trim()].filter(Boolean)
+    : args.map(normalizeTag).filter(Boolean);
+  
+  if (!['add', 'remove', 'addcategory', 'removecategory'].includes(command) || names.length === 0) {
+    return ctx.reply(TAGS_USAGE);
+  }
+  
+  const kind = isCategory ? 'category' : 'tag';
+  
+  if (command.startsWith('add')) {
+    await pool.query(
+      `INSERT INTO taxonomy_terms (user_id, workspace_id, kind, name)
+       SELECT $1, $2, $3, unnest($4::text[])
+       ON CONFLICT DO NOTHING`,
+      [ctx.from.id, ctx.access.workspaceId, kind, names]
+    );
+    await ctx.reply(`✅ Added ${kind === 'tag' ? 'tags' : 'category'}: ${names.join(', ')}`);
+  } else {
+    const result = await pool.query(
+      'DELETE FROM taxonomy_terms WHERE workspace_id = $1 AND kind = $2 AND LOWER(name) = ANY($3)',
+      [ctx.access.workspaceId, kind, names.map(name => name.toLowerCase())]
+    );
+    await ctx.reply(result.rowCount ? `🗑 Removed ${result.rowCount} ${kind === 'tag' ? 'tag(s)' : 'category'}.` : `❌ No such ${kind}.`);
+  }
+});
+
+// Revision history
+bot.command('revisions', requirePermission('view'), requirePostPermission('view'), async (ctx) => {
+  const postId = ctx.message.text.split(' ')[1];
+  if (!isId(postId)) {
+    return ctx.reply('Usage: /revisions <post_id>');
+  }
   
-  const stats = await pool.query(`
-    SELECT 
-      (SELECT COUNT(*) FROM monitored_sources WHERE user_id = $1 AND is_active = true) as active_sources,
-      (SELECT COUNT(*) FROM pending_messages pm 
-       JOIN monitored_sources ms ON pm.source_id = ms.id 
-       WHERE ms.user_id = $1 AND pm.is_processed = false) as pending_messages,
-      (SELECT COUNT(*) FROM blog_posts WHERE user_id = $1 AND status = 'pending') as pending_posts,
-      (SELECT COUNT(*) FROM blog_posts WHERE user_id = $1 AND status = 'published') as published_posts
-  `, [ctx.from!.id]);
+  const post = await pool.query<BlogPost>(
+    'SELECT * FROM blog_posts WHERE id = $1',
+    [parseInt(postId)]
+  );
   
-  const row = stats.rows[0];
+  if (post.rows.length === 0) {
+    return ctx.reply('❌ Post not found.');
+  }
   
-  await ctx.reply(
-    `📊 *Bot Status*\n\n` +
-    `✅ Active Sources: ${row.active_sources}\n` +
-    `📨 Pending Messages: ${row.pending_messages}\n` +
-    `📝 Posts Awaiting Review: ${row.pending_posts}\n` +
-    `✨ Published Posts: ${row.published_posts}\n\n` +
-    `🤖 Bot is running and monitoring your sources.`,
-    { parse_mode: 'Markdown' }
+  const revisions = await pool.query<PostRevision>(
+    'SELECT * FROM blog_post_revisions WHERE post_id = $1 ORDER BY revision DESC LIMIT 10',
+    [parseInt(postId)]
   );
-});
-
-bot.hears('⚙️ Settings', async (ctx) => {
-  if (!await isAuthorized(ctx.from!.id)) return;
   
-  const settings = await getUserSettings(ctx.from!.id);
+  if (revisions.rows.length === 0) {
+    return ctx.reply('📭 No revisions recorded for this post yet.');
+  }
+  
+  let message = `🕓 *Revisions of ${post.rows[0].title}*\n\n`;
   
-  await ctx.reply(
-    '⚙️ *Bot Settings*\n\nConfigure how the bot processes and publishes content:',
-    { parse_mode: 'Markdown', ...getSettingsMenu(settings) }
+  for (const revision of revisions.rows) {
+    message += `*r${revision.revision}* — ${revision.created_at.toISOString().replace('T', ' ').slice(0, 16)}\n`;
+    message += `   ${revision.title}\n`;
+  }
+  
+  const keyboard = Markup.inlineKeyboard(
+    revisions.rows.slice(1).map(revision => [
+      Markup.button.callback(`↩️ Roll back to r${revision.revision}`, `rollback_${postId}_${revision.revision}`)
+    ])
   );
+  
+  await ctx.reply(message, { parse_mode: 'Markdown', ...keyboard });
 });
 
-bot.action('toggle_auto_publish', async (ctx) => {
-  const userId = ctx.from!.id;
+bot.action(/rollback_(\d+)_(\d+)/, requirePostPermission('edit'), async (ctx) => {
+  const postId = parseInt(ctx.match![1]);
+  const revisionNumber = parseInt(ctx.match![2]);
   
-  await pool.query(
-    'UPDATE user_settings SET auto_publish = NOT auto_publish WHERE user_id = $1',
-    [userId]
+  const result = await pool.query<BlogPost>(
+    `UPDATE blog_posts bp
+     SET title = r.title, content = r.content, media_urls = r.media_urls, updated_at = NOW()
+     FROM blog_post_revisions r
+     WHERE bp.id = $1 AND r.post_id = bp.id AND r.revision = $2
+     RETURNING bp.*`,
+    [postId, revisionNumber]
   );
   
-  const settings = await getUserSettings(userId);
+  if (result.rows.length === 0) {
+    return ctx.answerCbQuery('❌ Revision not found');
+  }
+  
+  await ctx.answerCbQuery(`↩️ Rolled back to r${revisionNumber}`);
+  await logPostEvent(postId, ctx.from!.id, 'rolled_back', { revision: revisionNumber });
+  await saveRevision(postId, ctx.from!.id);
   
-  await ctx.editMessageReplyMarkup(getSettingsMenu(settings).reply_markup);
-  await ctx.answerCbQuery(`Auto-publish ${settings.auto_publish ? 'enabled' : 'disabled'}`);
+  // Restored content of a published post is reviewed like any other change; the live
+  // version stays up until the workspace's approval policy is met again
+  if (result.rows[0].status === 'published') {
+    await pool.query(`UPDATE blog_posts SET status = 'pending', updated_at = NOW() WHERE id = $1`, [postId]);
+    await pool.query('DELETE FROM post_reviews WHERE post_id = $1', [postId]);
+    await ctx.reply(
+      `↩️ ${boldMarkdown(result.rows[0].title)} restored from r${revisionNumber}. It is updated once approved.`,
+      { parse_mode: 'Markdown', ...getPendingPostKeyboard(postId) }
+    );
+  } else {
+    await ctx.reply(`↩️ ${boldMarkdown(result.rows[0].title)} restored from r${revisionNumber}.`, { parse_mode: 'Markdown' });
+  }
 });
 
-bot.hears('➕ Subscribe', async (ctx) => {
-  if (!await isAuthorized(ctx.from!.id)) return;
+// Search
+const SEARCH_RESULT_LIMIT = 5;
+const INLINE_RESULT_LIMIT = 10;
+// Reciprocal rank fusion constant for merging full-text and semantic rankings
+const SEARCH_RRF_K = 60;
+
+// Embeddings for semantic search, chosen with EMBEDDING_PROVIDER; off when it is unset
+function getEmbedder(): Embedder | null {
+  switch (process.env.EMBEDDING_PROVIDER) {
+    case 'gemini': {
+      const model = process.env.EMBEDDING_MODEL || 'text-embedding-004';
+      return {
+        model,
+        async embed(text) {
+          const result = await genAI.getGenerativeModel({ model }).embedContent(text);
+          return result.embedding.values;
+        }
+      };
+    }
+    case 'openai': {
+      const model = process.env.EMBEDDING_MODEL || 'text-embedding-3-small';
+      const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+      return {
+        model,
+        async embed(text) {
+          const response = await axios.post(
+            `${baseUrl}/embeddings`,
+            { model, input: text },
+            { headers: process.env.OPENAI_API_KEY ? { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` } : {} }
+          );
+          return response.data.data[0].embedding;
+        }
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+const embedder = getEmbedder();
+
+function toVectorLiteral(values: number[]): string {
+  return `[${values.join(',')}]`;
+}
+
+async function embedPost(postId: number) {
+  if (!embedder) return;
   
-  await ctx.reply(
-    '📢 *Subscribe to Channel/Group*\n\n' +
-    'Forward me a message from the channel or group you want to monitor, ' +
-    'or add me to the group and give me admin rights to read messages.\n\n' +
-    'I will confirm once the source is added.',
-    { parse_mode: 'Markdown' }
+  const post = await pool.query<BlogPost>('SELECT * FROM blog_posts WHERE id = $1', [postId]);
+  if (post.rows.length === 0) return;
+  
+  const { title, content } = post.rows[0];
+  const embedding = await embedder.embed(`${title}\n\n${content}`.slice(0, AI_MAX_INPUT_TOKENS * CHARS_PER_TOKEN));
+  
+  await pool.query(
+    `INSERT INTO post_embeddings (post_id, model, embedding)
+     VALUES ($1, $2, $3::vector)
+     ON CONFLICT (post_id) DO UPDATE
+     SET model = EXCLUDED.model, embedding = EXCLUDED.embedding, updated_at = NOW()`,
+    [postId, embedder.model, toVectorLiteral(embedding)]
   );
-});
+}
 
-bot.hears('📋 List Sources', async (ctx) => {
-  if (!await isAuthorized(ctx.from!.id)) return;
+// Queue embeddings for published posts that have none for the current model
+async function backfillEmbeddings() {
+  if (!embedder) return;
   
-  const sources = await pool.query<MonitoredSource>(
-    'SELECT * FROM monitored_sources WHERE user_id = $1 ORDER BY created_at DESC',
-    [ctx.from!.id]
+  const missing = await pool.query(
+    `SELECT bp.id FROM blog_posts bp
+     LEFT JOIN post_embeddings pe ON pe.post_id = bp.id AND pe.model = $1
+     WHERE bp.status = 'published' AND pe.post_id IS NULL`,
+    [embedder.model]
   );
   
-  if (sources.rows.length === 0) {
-    return ctx.reply('📭 No monitored sources yet. Use ➕ Subscribe to add some!');
+  for (const row of missing.rows) {
+    await enqueueJob('embed_post', { postId: row.id }, `embed_post:${row.id}`);
   }
+}
+
+// Split "tag:<tag>" and "category:<name>" (quoted if it has spaces) filters out of a search query
+function parseSearchQuery(query: string): { text: string; filters: SearchFilters } {
+  const filters: SearchFilters = { tags: [] };
   
-  let message = '📋 *Monitored Sources*\n\n';
+  const text = query.replace(/\b(tag|category):("[^"]+"|\S+)/gi, (match, key: string, value: string) => {
+    value = value.replace(/^"|"$/g, '');
+    if (key.toLowerCase() === 'tag') filters.tags.push(normalizeTag(value));
+    else filters.category = value;
+    return '';
+  });
   
-  for (const source of sources.rows) {
-    const status = source.is_active ? '✅' : '❌';
-    message += `${status} *${source.chat_title}*\n`;
-    message += `   Type: ${source.chat_type}\n`;
-    message += `   ID: \`${source.id}\`\n\n`;
+  return { text: text.replace(/\s+/g, ' ').trim(), filters };
+}
+
+// Ranked ids of a workspace's posts from full-text search, fused with semantic neighbours when
+// embeddings are enabled. Without query text, the newest posts matching the filters are returned.
+async function rankPosts(
+  workspaceId: number | null,
+  query: string,
+  limit: number,
+  filters: SearchFilters = { tags: [] }
+): Promise<number[]> {
+  const filterSql = (first: number) =>
+    `AND bp.workspace_id = $${first} AND bp.tags @> $${first + 1}::text[] ` +
+    `AND ($${first + 2}::text IS NULL OR LOWER(bp.category) = LOWER($${first + 2})) ` +
+    `AND ($${first + 3}::int[] IS NULL OR bp.source_id = ANY($${first + 3}))`;
+  const filterParams = [workspaceId, filters.tags, filters.category ?? null, filters.sourceIds ?? null];
+  
+  if (!query) {
+    const latest = await pool.query(
+      `SELECT bp.id FROM blog_posts bp
+       WHERE bp.status = 'published' ${filterSql(1)}
+       ORDER BY bp.published_at DESC
+       LIMIT $5`,
+      [...filterParams, limit]
+    );
+    return latest.rows.map(row => row.id);
   }
   
-  message += 'Use /unsubscribe <id> to remove a source';
+  const textHits = await pool.query(
+    `SELECT bp.id
+     FROM blog_posts bp, websearch_to_tsquery('simple', $1) q
+     WHERE bp.status = 'published' AND bp.search_vector @@ q ${filterSql(2)}
+     ORDER BY ts_rank_cd(bp.search_vector, q) DESC, bp.published_at DESC
+     LIMIT $6`,
+    [query, ...filterParams, limit * 2]
+  );
+  const rankings: number[][] = [textHits.rows.map(row => row.id)];
   
-  await ctx.reply(message, { parse_mode: 'Markdown' });
-});
-
-bot.hears('📝 Pending Posts', async (ctx) => {
-  if (!await isAuthorized(ctx.from!.id)) return;
+  if (embedder) {
+    try {
+      const embedding = await embedder.embed(query);
+      const semanticHits = await pool.query(
+        `SELECT pe.post_id AS id
+         FROM post_embeddings pe
+         JOIN blog_posts bp ON bp.id = pe.post_id
+         WHERE bp.status = 'published' AND pe.model = $7 ${filterSql(2)}
+         ORDER BY pe.embedding <=> $1::vector
+         LIMIT $6`,
+        [toVectorLiteral(embedding), ...filterParams, limit * 2, embedder.model]
+      );
+      rankings.push(semanticHits.rows.map(row => row.id));
+    } catch (error) {
+      // Full-text results are still useful when the embedding call fails
+      console.error('Error running semantic search:', error);
+    }
+  }
   
-  const posts = await pool.query<BlogPost>(
-    'SELECT * FROM blog_posts WHERE user_id = $1 AND status = $2 ORDER BY created_at DESC LIMIT 10',
-    [ctx.from!.id, 'pending']
+  const scores = new Map<number, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => scores.set(id, (scores.get(id) || 0) + 1 / (SEARCH_RRF_K + index + 1)));
+  }
+  
+  return [...scores.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([id]) => id);
+}
+
+// Links to each post's first Notion page and GitHub file across its destinations
+async function getPostLinks(postIds: number[]): Promise<Map<number, { notionUrl?: string; githubUrl?: string }>> {
+  const publications = await pool.query(
+    `SELECT pp.post_id, pp.notion_page_id, pp.github_path,
+            COALESCE(d.github_repo, w.github_repo) AS github_repo,
+            COALESCE(d.github_branch, 'HEAD') AS github_branch
+     FROM post_publications pp
+     JOIN blog_posts bp ON bp.id = pp.post_id
+     LEFT JOIN publish_destinations d ON pp.destination_key = 'destination:' || d.id
+     LEFT JOIN workspaces w ON w.id = bp.workspace_id AND pp.destination_key = 'default'
+     WHERE pp.post_id = ANY($1)
+     ORDER BY pp.published_at ASC`,
+    [postIds]
   );
   
-  if (posts.rows.length === 0) {
-    return ctx.reply('📭 No pending posts. All caught up!');
-  }
+  const links = new Map<number, { notionUrl?: string; githubUrl?: string }>();
   
-  for (const post of posts.rows) {
-    const keyboard = Markup.inlineKeyboard([
-      [
-        Markup.button.callback('✅ Publish', `publish_${post.id}`),
-        Markup.button.callback('❌ Reject', `reject_${post.id}`)
-      ],
-      [Markup.button.callback('✏️ Edit', `edit_${post.id}`)]
-    ]);
-    
-    let message = `📝 *${post.title}*\n\n${post.content.substring(0, 500)}`;
-    if (post.content.length > 500) message += '...';
-    
-    await ctx.reply(message, { parse_mode: 'Markdown', ...keyboard });
+  for (const row of publications.rows) {
+    const link = links.get(row.post_id) || {};
+    if (!link.notionUrl && row.notion_page_id) {
+      link.notionUrl = `https://www.notion.so/${row.notion_page_id.replace(/-/g, '')}`;
+    }
+    if (!link.githubUrl && row.github_path && row.github_repo) {
+      link.githubUrl = `https://github.com/${row.github_repo}/blob/${row.github_branch}/${row.github_path}`;
+    }
+    links.set(row.post_id, link);
   }
-});
+  
+  return links;
+}
 
-bot.hears('👥 Manage Users', async (ctx) => {
-  if (!await isAuthorized(ctx.from!.id)) return;
+// Search published posts; snippets are stripped of Markdown and mark matches with *bold*
+async function searchPosts(workspaceId: number | null, query: string, limit = SEARCH_RESULT_LIMIT): Promise<SearchResult[]> {
+  const { text, filters } = parseSearchQuery(query);
+  const ids = await rankPosts(workspaceId, text, limit, filters);
+  if (ids.length === 0) return [];
   
-  const users = await pool.query(
-    'SELECT user_id, username, is_authorized FROM users ORDER BY created_at DESC'
+  const posts = await pool.query<BlogPost & { snippet: string }>(
+    `SELECT bp.*, ts_headline('simple', bp.content, websearch_to_tsquery('simple', $2),
+              'MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … ", StartSel=@@@, StopSel=%%%') AS snippet
+     FROM blog_posts bp
+     WHERE bp.id = ANY($1)`,
+    [ids, text]
   );
+  const links = await getPostLinks(ids);
   
-  let message = '👥 *User Management*\n\n';
+  return ids
+    .map(id => posts.rows.find(post => post.id === id))
+    .filter((post): post is BlogPost & { snippet: string } => post !== undefined)
+    .map(({ snippet, ...post }) => ({
+      post,
+      snippet: snippet
+        .replace(/\s+/g, ' ')
+        .replace(/[*_`\[\]]/g, '')
+        .replace(/@@@|%%%/g, '*'),
+      ...links.get(post.id)
+    }));
+}
+
+function getSearchResultKeyboard(result: SearchResult) {
+  const buttons = [];
+  if (result.notionUrl) buttons.push(Markup.button.url('📝 Notion', result.notionUrl));
+  if (result.githubUrl) buttons.push(Markup.button.url('🔗 GitHub', result.githubUrl));
   
-  for (const user of users.rows) {
-    const status = user.is_authorized ? '✅' : '❌';
-    message += `${status} @${user.username || 'unknown'} (\`${user.user_id}\`)\n`;
+  return Markup.inlineKeyboard([buttons]);
+}
+
+bot.command('search', requirePermission('view'), async (ctx) => {
+  const query = ctx.message.text.split(' ').slice(1).join(' ').trim();
+  if (!query) {
+    return ctx.reply(
+      'Usage: /search <query> [tag:<tag>] [category:<name>]\n\n' +
+      'Tip: you can also type @' + ctx.botInfo.username + ' <query> in any chat.'
+    );
   }
   
-  message += '\nUse /authorize <user_id> to grant access\n';
-  message += 'Use /revoke <user_id> to remove access';
+  const results = await searchPosts(ctx.access.workspaceId, query);
   
-  await ctx.reply(message, { parse_mode: 'Markdown' });
+  if (results.length === 0) {
+    return ctx.reply('🔍 Nothing published matches that query.');
+  }
+  
+  await ctx.reply(`🔍 *${results.length} result(s) for* "${query.replace(/[*_`\[\]]/g, '')}"`, { parse_mode: 'Markdown' });
+  
+  for (const result of results) {
+    await ctx.reply(
+      `📄 ${boldMarkdown(result.post.title)}\n\n${result.snippet}`,
+      { parse_mode: 'Markdown', ...getSearchResultKeyboard(result) }
+    );
+  }
 });
 
-bot.command('authorize', async (ctx) => {
-  if (ctx.from!.id !== parseInt(process.env.OWNER_USER_ID!)) {
-    return ctx.reply('⛔ Only the owner can authorize users.');
-  }
+// Inline mode (@bot query) has to be switched on for the bot in BotFather
+bot.on('inline_query', requirePermission('view'), async (ctx) => {
+  const query = ctx.inlineQuery.query.trim();
   
-  const userId = ctx.message.text.split(' ')[1];
-  if (!userId) {
-    return ctx.reply('Usage: /authorize <user_id>');
+  if (!query) {
+    return ctx.answerInlineQuery([], { cache_time: 10, is_personal: true });
   }
   
-  await pool.query(
-    'UPDATE users SET is_authorized = true WHERE user_id = $1',
-    [parseInt(userId)]
-  );
+  const results = await searchPosts(ctx.access.workspaceId, query, INLINE_RESULT_LIMIT);
+  
+  const articles: InlineQueryResult[] = results.map(result => ({
+    type: 'article',
+    id: String(result.post.id),
+    title: result.post.title,
+    description: result.snippet.replace(/\*/g, ''),
+    input_message_content: {
+      message_text: `📄 ${boldMarkdown(result.post.title)}\n\n${result.snippet}`,
+      parse_mode: 'Markdown'
+    },
+    reply_markup: result.notionUrl || result.githubUrl ? getSearchResultKeyboard(result).reply_markup : undefined
+  }));
   
-  await ctx.reply(`✅ User ${userId} has been authorized.`);
+  await ctx.answerInlineQuery(articles, { cache_time: 30, is_personal: true });
 });
 
-bot.command('unsubscribe', async (ctx) => {
-  if (!await isAuthorized(ctx.from!.id)) return;
+// Question answering
+const ASK_MAX_POSTS = 5;
+const ASK_CHUNK_CHARS = 1200;
+const ASK_CHUNKS_PER_POST = 2;
+const ASK_MAX_MESSAGES_PER_POST = 5;
+const NO_ANSWER = 'NO_ANSWER';
+
+// Split text into chunks of whole paragraphs no longer than size (longer paragraphs are cut)
+function chunkText(text: string, size = ASK_CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  let current = '';
   
-  const sourceId = ctx.message.text.split(' ')[1];
-  if (!sourceId) {
-    return ctx.reply('Usage: /unsubscribe <source_id>');
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    for (let i = 0; i < paragraph.length; i += size) {
+      const piece = paragraph.slice(i, i + size);
+      if (current && current.length + piece.length + 2 > size) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
   }
+  if (current.trim()) chunks.push(current);
   
-  await pool.query(
-    'UPDATE monitored_sources SET is_active = false WHERE id = $1 AND user_id = $2',
-    [parseInt(sourceId), ctx.from!.id]
+  return chunks;
+}
+
+// The chunks of a post sharing the most words with the question, in their original order
+function relevantChunks(content: string, question: string): string[] {
+  const terms = new Set(question.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || []);
+  const chunks = chunkText(content);
+  
+  const score = (chunk: string) => (chunk.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || [])
+    .filter(word => terms.has(word)).length;
+  
+  const best = chunks
+    .map((chunk, index) => ({ chunk, index, score: score(chunk) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, ASK_CHUNKS_PER_POST)
+    .sort((a, b) => a.index - b.index);
+  
+  return best.map(item => item.chunk);
+}
+
+// Answer a question from a workspace's published posts (optionally only those of some sources)
+// and the messages they were written from.
+// Returns null when nothing relevant was found or the model could not answer from it.
+async function answerQuestion(
+  question: string,
+  provider: LLMProvider,
+  workspaceId: number | null,
+  sourceIds?: number[],
+  previousAnswer?: string
+): Promise<{ answer: string; sources: AnswerSource[] } | null> {
+  const ids = await rankPosts(workspaceId, question, ASK_MAX_POSTS, { tags: [], sourceIds });
+  if (ids.length === 0) return null;
+  
+  const posts = await pool.query<BlogPost>(
+    'SELECT * FROM blog_posts WHERE id = ANY($1)',
+    [ids]
   );
+  const links = await getPostLinks(ids);
   
-  await ctx.reply('✅ Source unsubscribed successfully.');
-});
+  const sources: AnswerSource[] = ids
+    .map(id => posts.rows.find(post => post.id === id))
+    .filter((post): post is BlogPost => post !== undefined)
+    .map((post, index) => ({
+      number: index + 1,
+      post,
+      url: links.get(post.id)?.notionUrl || links.get(post.id)?.githubUrl
+    }));
+  
+  const context: string[] = [];
+  
+  for (const source of sources) {
+    const messages = await pool.query<PendingMessage>(
+      'SELECT * FROM pending_messages WHERE id = ANY($1) ORDER BY timestamp ASC LIMIT $2',
+      [source.post.source_messages || [], ASK_MAX_MESSAGES_PER_POST]
+    );
+    
+    context.push(
+      `[${source.number}] Post: "${source.post.title}"\n` +
+      relevantChunks(source.post.content, question).join('\n…\n') +
+      (messages.rows.length > 0
+        ? '\nOriginal messages:\n' + messages.rows
+          .map(m => `- ${m.sender}: ${[m.text, m.transcript].filter(Boolean).join(' ')}`.slice(0, 500))
+          .join('\n')
+        : '')
+    );
+  }
+  
+  const raw = await provider.generateText(`Answer the question using only the wiki excerpts below.
+Cite every excerpt you rely on by its number in square brackets, like [1] or [2][3].
+Keep the answer short and in the language of the question. Do not use outside knowledge.
+If the excerpts do not answer the question, reply with exactly ${NO_ANSWER}.
+${previousAnswer ? `\nThe question follows up on this earlier answer:\n${previousAnswer}\n` : ''}
+Wiki excerpts:
+${context.join('\n\n')}
 
-// Handle forwarded messages for subscription
-bot.on(message('forward_origin'), async (ctx) => {
-  if (!await isAuthorized(ctx.from!.id)) return;
+Question: ${question}`);
   
-  const forwardOrigin = ctx.message.forward_origin;
-  let chatId: number;
-  let chatTitle: string;
-  let chatType: string;
+  const answer = raw.trim();
+  if (!answer || answer.includes(NO_ANSWER)) return null;
   
-  if (forwardOrigin.type === 'channel') {
-    chatId = forwardOrigin.chat.id;
-    chatTitle = forwardOrigin.chat.title!;
-    chatType = 'channel';
-  } else {
-    return ctx.reply('❌ Please forward a message from a channel.');
+  return { answer, sources };
+}
+
+// Markdown reply for an answer: citation markers become links and the cited posts are listed
+function formatAnswer(answer: string, sources: AnswerSource[]): string {
+  const cited = new Set<number>();
+  
+  // Markers are swapped for placeholders so the model's own Markdown can be stripped safely
+  const body = answer
+    .replace(/\[(\d+)\]/g, '\u0000$1\u0000')
+    .replace(/[*_`\[\]]/g, '')
+    .replace(/\u0000(\d+)\u0000/g, (marker, n) => {
+      const source = sources.find(s => s.number === parseInt(n));
+      if (!source) return '';
+      cited.add(source.number);
+      return source.url ? `[(${n})](${source.url})` : `(${n})`;
+    });
+  
+  const list = sources
+    .filter(source => cited.has(source.number))
+    .map(source => {
+      const title = source.post.title.replace(/[*_`\[\]]/g, '');
+      return source.url ? `${source.number}. [${title}](${source.url})` : `${source.number}. ${title} (post #${source.post.id})`;
+    });
+  
+  return list.length > 0 ? `${body}\n\n📚 *Sources*\n${list.join('\n')}` : body;
+}
+
+const NOTHING_FOUND_REPLY = '🤷 The wiki has nothing on that yet.';
+
+// Every answer is a model call on the workspace's account, so each chat gets a few per hour
+const ASK_RATE_LIMIT = parseInt(process.env.ASK_RATE_LIMIT || '20');
+const ASK_RATE_WINDOW_MS = 60 * 60 * 1000;
+const recentQuestions = new Map<number, number[]>();
+
+// Counts the question against the chat's limit unless the limit is already reached
+function isRateLimited(chatId: number): boolean {
+  const now = Date.now();
+  const recent = (recentQuestions.get(chatId) || []).filter(time => now - time < ASK_RATE_WINDOW_MS);
+  const isLimited = recent.length >= ASK_RATE_LIMIT;
+  
+  if (!isLimited) recent.push(now);
+  recentQuestions.set(chatId, recent);
+  return isLimited;
+}
+
+bot.command('ask', async (ctx) => {
+  const isGroup = ctx.chat.type !== 'private';
+  const topicId = ctx.message.is_topic_message ? ctx.message.message_thread_id : undefined;
+  const sources = isGroup ? await getMatchingSources(ctx.chat.id, topicId) : [];
+  
+  // Anyone may ask in a monitored group; elsewhere only authorized users
+  if (sources.length === 0 && !ctx.access.permissions.has('view')) return denyAccess(ctx);
+  
+  const question = ctx.message.text.split(' ').slice(1).join(' ').trim();
+  if (!question) {
+    return ctx.reply('Usage: /ask <question>');
   }
   
-  await pool.query(
-    `INSERT INTO monitored_sources (user_id, chat_id, chat_title, chat_type, is_active)
-     VALUES ($1, $2, $3, $4, true)
-     ON CONFLICT (user_id, chat_id, topic_id) DO UPDATE SET is_active = true`,
-    [ctx.from!.id, chatId, chatTitle, chatType]
+  // Answers in a monitored group come from the posts of the group's own sources, with its workspace's
+  // AI settings; in a group the bot does not monitor, the asker's whole workspace is searched
+  const workspaceId = sources[0]?.workspace_id ?? ctx.access.workspaceId!;
+  const settings = await getWorkspace(workspaceId);
+  const sourceIds = sources.length > 0 ? sources.map(source => source.id) : undefined;
+  await replyWithAnswer(ctx, question, getLLMProvider(settings), workspaceId, sourceIds, ctx.message.message_id);
+});
+
+async function isAnswerMessage(chatId: number, messageId: number): Promise<boolean> {
+  const result = await pool.query(
+    'SELECT 1 FROM answer_messages WHERE chat_id = $1 AND message_id = $2',
+    [chatId, messageId]
   );
+  return result.rows.length > 0;
+}
+
+// A reply to one of the bot's answers in a monitored group is a follow-up question
+async function answerGroupReply(ctx: BotContext, msg: Message.TextMessage) {
+  const topicId = msg.is_topic_message ? msg.message_thread_id : undefined;
+  const sources = await getMatchingSources(msg.chat.id, topicId);
+  if (sources.length === 0) return;
   
-  await ctx.reply(
-    `✅ Successfully subscribed to *${chatTitle}*!\n\n` +
-    `I will now monitor messages from this ${chatType} and create wiki posts.`,
-    { parse_mode: 'Markdown' }
+  const previous = msg.reply_to_message && 'text' in msg.reply_to_message ? msg.reply_to_message.text : undefined;
+  const settings = await getWorkspace(sources[0].workspace_id);
+  await replyWithAnswer(
+    ctx,
+    msg.text,
+    getLLMProvider(settings),
+    sources[0].workspace_id,
+    sources.map(source => source.id),
+    msg.message_id,
+    previous
   );
-});
-
-// Process pending messages periodically
-async function processMessages() {
-  try {
-    const users = await pool.query('SELECT DISTINCT user_id FROM user_settings');
-    
-    for (const user of users.rows) {
-      const settings = await getUserSettings(user.user_id);
-      
-      const messages = await pool.query<PendingMessage>(
-        `SELECT pm.* FROM pending_messages pm
-         JOIN monitored_sources ms ON pm.source_id = ms.id
-         WHERE ms.user_id = $1 AND pm.is_processed = false
-         ORDER BY pm.timestamp ASC`,
-        [user.user_id]
-      );
-      
-      if (messages.rows.length === 0) continue;
-      
-      const timeThreshold = new Date(
-        Date.now() - settings.combine_threshold_minutes * 60 * 1000
-      );
-      
-      const recentMessages = messages.rows.filter(
-        m => m.timestamp >= timeThreshold
-      );
-      
-      if (recentMessages.length === 0) continue;
-      
-      const analysis = await analyzeMessages(recentMessages);
-      
-      if (!analysis.isInformational) {
-        await pool.query(
-          'UPDATE pending_messages SET is_processed = true WHERE id = ANY($1)',
-          [recentMessages.map(m => m.id)]
-        );
-        continue;
-      }
-      
-      const mediaUrls = recentMessages.flatMap(m => m.media_urls || []);
-      
-      const postResult = await pool.query(
-        `INSERT INTO blog_posts (user_id, title, content, media_urls, source_messages, status)
-         VALUES ($1, $2, $3, $4, $5, $6)
-         RETURNING id`,
-        [
-          user.user_id,
-          analysis.suggestedTitle,
-          analysis.combinedContent,
-          mediaUrls,
-          recentMessages.map(m => m.id),
-          settings.auto_publish ? 'publishing' : 'pending'
-        ]
-      );
-      
-      await pool.query(
-        'UPDATE pending_messages SET is_processed = true WHERE id = ANY($1)',
-        [recentMessages.map(m => m.id)]
-      );
-      
-      if (settings.auto_publish) {
-        const postId = postResult.rows[0].id;
-        await publishPost(postId, user.user_id);
-      }
-    }
-  } catch (error) {
-    console.error('Error processing messages:', error);
-  }
 }
 
-async function publishPost(postId: number, userId: number) {
+async function replyWithAnswer(
+  ctx: BotContext,
+  question: string,
+  provider: LLMProvider,
+  workspaceId: number | null,
+  sourceIds: number[] | undefined,
+  replyTo: number,
+  previousAnswer?: string
+) {
+  const replyParameters = { reply_parameters: { message_id: replyTo, allow_sending_without_reply: true } };
+  
+  if (isRateLimited(ctx.chat!.id)) {
+    return ctx.reply('⏳ Too many questions in this chat. Please try again later.', replyParameters);
+  }
+  
   try {
-    const post = await pool.query<BlogPost>(
-      'SELECT * FROM blog_posts WHERE id = $1',
-      [postId]
-    );
-    
-    if (post.rows.length === 0) return;
-    
-    const postData = post.rows[0];
-    const settings = await getUserSettings(userId);
+    await ctx.sendChatAction('typing');
+    const result = await answerQuestion(question, provider, workspaceId, sourceIds, previousAnswer);
     
-    let notionPageId, githubSha;
-    
-    if (settings.notion_database_id) {
-      notionPageId = await publishToNotion(
-        settings.notion_database_id,
-        postData.title,
-        postData.content,
-        postData.media_urls || []
-      );
+    if (!result) {
+      return ctx.reply(NOTHING_FOUND_REPLY, replyParameters);
     }
     
-    if (settings.github_repo) {
-      githubSha = await publishToGitHub(
-        settings.github_repo,
-        postData.title,
-        postData.content,
-        postData.media_urls || []
-      );
+    const text = formatAnswer(result.answer, result.sources);
+    let sent: Message.TextMessage;
+    
+    try {
+      sent = await ctx.reply(text, { parse_mode: 'Markdown', ...replyParameters, link_preview_options: { is_disabled: true } });
+    } catch {
+      // Model output Telegram cannot parse as Markdown is sent as plain text
+      sent = await ctx.reply(text, { ...replyParameters, link_preview_options: { is_disabled: true } });
     }
     
     await pool.query(
-      `UPDATE blog_posts 
-       SET status = 'published', notion_page_id = $1, github_commit_sha = $2, published_at = NOW()
-       WHERE id = $3`,
-      [notionPageId, githubSha, postId]
-    );
-    
-    await bot.telegram.sendMessage(
-      userId,
-      `✅ Published: *${postData.title}*\n\n` +
-      `${notionPageId ? '📝 Notion: Published\n' : ''}` +
-      `${githubSha ? '🔗 GitHub: Committed\n' : ''}`,
-      { parse_mode: 'Markdown' }
+      'INSERT INTO answer_messages (chat_id, message_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+      [sent.chat.id, sent.message_id]
     );
   } catch (error) {
-    console.error('Error publishing post:', error);
-    await pool.query(
-      'UPDATE blog_posts SET status = $1 WHERE id = $2',
-      ['failed', postId]
-    );
+    console.error('Error answering question:', error);
+    await ctx.reply('❌ Could not answer that right now. Please try again later.', replyParameters);
   }
 }
 
-// Publish action handlers
-bot.action(/publish_(\d+)/, async (ctx) => {
-  const postId = parseInt(ctx.match![1]);
-  await publishPost(postId, ctx.from!.id);
-  await ctx.answerCbQuery('✅ Publishing post...');
-  await ctx.deleteMessage();
-});
-
-bot.action(/reject_(\d+)/, async (ctx) => {
-  const postId = parseInt(ctx.match![1]);
-  await pool.query('DELETE FROM blog_posts WHERE id = $1', [postId]);
-  await ctx.answerCbQuery('❌ Post rejected');
-  await ctx.deleteMessage();
-});
-
 // Health check endpoint
-const express = require('express');
 const app = express();
 
-app.get('/health', (req: any, res: any) => {
+app.use('/media', express.static(MEDIA_DIR, { immutable: true, maxAge: '365d' }));
+
+app.get('/health', (req, res) => {
   res.json({ status: 'healthy', timestamp: new Date().toISOString() });
 });
 
 const PORT = process.env.PORT || 3000;
-app.listen(PORT, () => {
-  console.log(`✅ Health check server running on port ${PORT}`);
-});
 
 // Start bot
 async function main() {
   try {
     await initDatabase();
-    await bot.launch();
-    console.log('✅ Bot started successfully');
+    await backfillEmbeddings();
     
     setInterval(processMessages, 30000);
+    setInterval(publishDuePosts, 30000);
+    setInterval(queueDueDigests, 60000);
+    runJobWorker();
+    
+    process.once('SIGINT', () => {
+      jobWorkerStopped = true;
+      bot.stop('SIGINT');
+    });
+    process.once('SIGTERM', () => {
+      jobWorkerStopped = true;
+      bot.stop('SIGTERM');
+    });
     
-    process.once('SIGINT', () => bot.stop('SIGINT'));
-    process.once('SIGTERM', () => bot.stop('SIGTERM'));
+    // launch() only settles once polling stops, so background work is started first
+    await bot.launch(() => console.log('✅ Bot started successfully'));
   } catch (error) {
     console.error('❌ Failed to start bot:', error);
     process.exit(1);
   }
 }
 
-main();
\ No newline at end of file
+// Only started when run directly; the tests import the helpers below without a server or bot
+if (require.main === module) {
+  app.listen(PORT, () => {
+    console.log(`✅ Health check server running on port ${PORT}`);
+  });
+  
+  main();
+}
+
+export {
+  applyTaxonomy,
+  extractNotionDatabaseId,
+  markdownToNotionBlocks,
+  nextCronRun,
+  parseCron,
+  parseCronField,
+  parseSearchQuery,
+  parseSlotDays,
+  sourceTextHash
+};
\ No newline at end of file